@@ -1,34 +1,106 @@
-import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
-import { Play, RotateCcw, Menu, X, Trophy, Users } from 'lucide-react';
-import { GameState, Player, Tile, Move } from './types';
-import { generateDeck, shuffleDeck, determineStarter, getValidMoves, calculateBotMove, calculateScores, getTileSum, isDouble, areTilesEqual } from './utils/gameLogic';
+import React, { useState, useEffect, useRef, useReducer, useMemo } from 'react';
+import { Play, RotateCcw, Menu, X, Trophy, Users, Hash, Copy, Download, FolderOpen, Undo2, Lightbulb, Grid3x3, Settings, Globe, LogOut, History, BarChart3, Pause, FastForward, Gauge, Search, PencilRuler, Puzzle as PuzzleIcon, FileText } from 'lucide-react';
+import { GameState, GameOptions, Player, Tile, Side, Move, MatchState, BotDifficulty, RuleSet, GameSpeed, Position, GameEvent } from './types';
+import { dealFromSeed, rotateDealSeats, getValidMoves, getVisualChain, analyzeMoves, getPartnerInfo, getTeamName, areTilesEqual } from './utils/gameLogic';
+import { DIFFICULTY_LABELS } from './utils/search';
+import { getStrategy, getSeatView, fallbackMove, listStrategies, DEFAULT_STRATEGY_ID } from './utils/strategies';
+import { buildInference } from './utils/inference';
+import { DEFAULT_RULES } from './utils/rules';
+import { reduce, initialGameState, getNextPlayerIndex, getRoundEndAction, getStuckAction, normalizeOptions, getTeamCount, createPlayers, DEFAULT_OPTIONS } from './utils/engine';
+import { randomSeed, seedToDealCode, parseDealCode } from './utils/random';
+import { RoundRecord, exportRound, roundRecordFileName, parseRoundRecord, buildReplayStates } from './utils/replay';
+import { downloadFile, readFileAsText } from './utils/download';
+import { createMatch, recordRound, isMatchOver, TARGET_SCORE_OPTIONS, DEFAULT_TARGET_SCORE } from './utils/match';
 import { DominoTile } from './components/DominoTile';
+import { ScoreBoard } from './components/ScoreBoard';
+import { ReplayViewer } from './components/ReplayViewer';
+import { HintPanel } from './components/HintPanel';
+import { TileTracker } from './components/TileTracker';
+import { RulesSettings } from './components/RulesSettings';
+import { OnlineLobby } from './components/OnlineLobby';
+import { useOnlineRoom } from './utils/onlineClient';
+import { LoadedSave, loadSave, saveGame, clearSave, loadHistory, saveHistory, loadStats, saveStats, loadSpeed, saveSpeed } from './utils/storage';
+import { RoundStat, roundStat } from './utils/stats';
+import { RoundHistory } from './components/RoundHistory';
+import { StatsDashboard } from './components/StatsDashboard';
+import { RoundReview } from './components/RoundReview';
+import { ScenarioEditor } from './components/ScenarioEditor';
+import { NotationImport } from './components/NotationImport';
+import { DropZone } from './components/DropZone';
+import { useTileDrag } from './utils/tileDrag';
+import { describeEvent, describeHandTile, tileLabel } from './utils/announce';
+import { layoutBoard, getOpeningIndex } from './utils/boardLayout';
+import { Puzzle, parsePuzzle, isPuzzleSolution } from './utils/scenario';
+import { formatNotation } from './utils/notation';
 
-// Initial Empty State
-const initialGameState: GameState = {
-  players: [],
-  board: [],
-  boneyard: [],
-  leftEnd: null,
-  rightEnd: null,
-  currentPlayerIndex: 0,
-  status: 'idle',
-  logs: [],
-  winner: null,
-  passHistory: { 0: [], 1: [], 2: [], 3: [] }
+// Pause before each bot move, and before passing (or drawing) for a user with nothing to play
+const SPEED_DELAYS: Record<GameSpeed, { bot: number; autoPass: number }> = {
+  instant: { bot: 0, autoPass: 0 },
+  fast: { bot: 700, autoPass: 400 },
+  normal: { bot: 3000, autoPass: 1500 },
+  slow: { bot: 5000, autoPass: 2500 }
 };
+const SPEED_LABELS: Record<GameSpeed, string> = { instant: 'Instant', fast: 'Fast', normal: 'Normal', slow: 'Slow' };
 
-// Slower bot speed as requested
-const BOT_DELAY_MS = 3000;
+// Seat setting for a human in pass-and-play, alongside the bot strategy ids
+const HUMAN_SEAT = 'human';
+
+// Hands of a deal code, in deal order, for "replay from another seat"
+const getSeatLabels = ({ playerCount, teams }: GameOptions): string[] =>
+  playerCount === 2 ? ['My hand', 'Across'] : playerCount === 3 ? ['My hand', 'Left', 'Right'] : ['My hand', 'Left', teams ? 'Partner' : 'Across', 'Right'];
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [localState, dispatch] = useReducer(reduce, initialGameState);
+  const [targetScore, setTargetScore] = useState(DEFAULT_TARGET_SCORE);
+  const [localMatch, setMatch] = useState<MatchState>(() => createMatch(DEFAULT_TARGET_SCORE));
+  const online = useOnlineRoom();
+  // Online, the server's copy of the round (only our own hand filled in) replaces the local one
+  const onlineGame = online.active ? online.room?.game ?? null : null;
+  const gameState = onlineGame ?? localState;
+  const match = online.active && online.room ? online.room.match : localMatch;
+  const [viewerSeat, setViewerSeat] = useState(0); // Pass-and-play: whose hand is on screen
+  const mySeat = onlineGame ? online.room!.yourSeat : viewerSeat;
+  const [dealCodeInput, setDealCodeInput] = useState('');
+  const [dealSeat, setDealSeat] = useState(0); // Which of the dealt hands the user takes
+  const [replay, setReplay] = useState<RoundRecord | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [undoEnabled, setUndoEnabled] = useState(true);
+  const [undoStack, setUndoStack] = useState<GameState[]>([]); // Snapshots taken right before each of the user's plays
+  const [showHint, setShowHint] = useState(false);
+  const [showTracker, setShowTracker] = useState(false);
+  const [seatStrategies, setSeatStrategies] = useState<Record<number, string>>({ 1: DEFAULT_STRATEGY_ID, 2: DEFAULT_STRATEGY_ID, 3: DEFAULT_STRATEGY_ID });
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [options, setOptions] = useState<GameOptions>(DEFAULT_OPTIONS);
+  const [showRules, setShowRules] = useState(false);
   const [isSidebarOpen, setSidebarOpen] = useState(false); // Mobile sidebar toggle
-  const [boardScale, setBoardScale] = useState(1); // Auto-zoom scale
+  const [speed, setSpeed] = useState<GameSpeed>(loadSpeed);
+  const [paused, setPaused] = useState(false);
+  const [skipping, setSkipping] = useState(false); // Fast-forward: bots move instantly until a human has a choice to make
+  const [boardSize, setBoardSize] = useState({ width: 0, height: 0 }); // Measured board area, for the snake layout
+  const [savedGame, setSavedGame] = useState<LoadedSave | null>(loadSave); // Offered as "Resume" until the user decides
+  const [history, setHistory] = useState<RoundRecord[]>(loadHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const [stats, setStats] = useState<RoundStat[]>(loadStats);
+  const [showStats, setShowStats] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showNotation, setShowNotation] = useState(false);
+  const [puzzle, setPuzzle] = useState<{ puzzle: Puzzle; result: 'solved' | 'missed' | null } | null>(null); // Judged on the first play
+  const [puzzleError, setPuzzleError] = useState<string | null>(null);
+  const [selectedTile, setSelectedTile] = useState<Tile | null>(null); // Tapped, waiting for the user to tap an end
+  const { drag, bindTile } = useTileDrag(tile => onUserTileClick(tile), (tile, side) => placeOnEnd(tile, side));
+  const placingTile = drag?.tile ?? selectedTile; // The drop zones show while this is set
+  const [handFocus, setHandFocus] = useState(0); // Hand tile that keyboard focus sits on (roving tabindex)
+  const [announcement, setAnnouncement] = useState({ id: 0, text: '' }); // Live region for screen readers
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  const handRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const refocusHand = useRef(false); // A key press played from the hand; keep focus there once the tile is gone
+  const announced = useRef<{ deal: unknown; count: number }>({ deal: null, count: 0 });
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const puzzleInputRef = useRef<HTMLInputElement>(null);
   const boardContainerRef = useRef<HTMLDivElement>(null);
-  const boardContentRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll logs
   useEffect(() => {
@@ -37,243 +109,412 @@ export default function App() {
     }
   }, [gameState.logs]);
 
-  // Auto-Zoom Board Logic
-  useLayoutEffect(() => {
-    if (boardContainerRef.current && boardContentRef.current) {
-      const containerWidth = boardContainerRef.current.clientWidth;
-      const contentWidth = boardContentRef.current.scrollWidth;
-      const containerHeight = boardContainerRef.current.clientHeight;
-      const contentHeight = boardContentRef.current.scrollHeight;
+  // Re-measure the board area whenever it changes size (window, sidebar, orientation) so the snake re-wraps
+  useEffect(() => {
+    const el = boardContainerRef.current;
+    if (!el) return;
+    const measure = () => setBoardSize({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
 
-      // Calculate scale to fit width
-      const widthScale = Math.min(1, (containerWidth - 32) / contentWidth); // 32px padding buffer
-      
-      // Calculate scale to fit height (less critical usually, but good for safety)
-      const heightScale = Math.min(1, (containerHeight - 20) / contentHeight);
+  // A picked-up tile goes back in the hand once anything happens at the table
+  useEffect(() => {
+    setSelectedTile(null);
+  }, [gameState.events.length, gameState.status, mySeat]);
 
-      // Use the smaller scale to fit both dimensions, but prioritize width fit for snake
-      setBoardScale(widthScale);
+  // Screen readers hear every play, pass and draw as it lands, then whether it's the user's turn.
+  // Resuming or joining mid-round only reads the last few moves.
+  useEffect(() => {
+    const events = gameState.events;
+    const seen = announced.current;
+    const start = events[0] !== seen.deal ? 0 : Math.min(seen.count, events.length);
+    announced.current = { deal: events[0], count: events.length };
+    const lines = events.slice(start).slice(-4).map(e => describeEvent(e, gameState.players, hotSeat ? null : mySeat));
+    if (events.length < seen.count && events[0] === seen.deal) lines.push('Move taken back.');
+    if (isUserTurn && !needsHandoff) {
+      lines.push(isSalida ? 'Your turn. Lead any tile.' : `Your turn. Ends are ${gameState.leftEnd} and ${gameState.rightEnd}.`);
     }
-  }, [gameState.board, gameState.status, isSidebarOpen]);
+    if (lines.length > 0) announce(lines.join(' '));
+  }, [gameState.events.length, gameState.currentPlayerIndex, gameState.status, mySeat]);
 
-  // Game Loop
+  // After a keyboard play the focused tile is gone, so move focus to its neighbour
   useEffect(() => {
-    if (gameState.status !== 'playing') return;
+    if (!refocusHand.current) return;
+    refocusHand.current = false;
+    const count = gameState.players[mySeat]?.hand.length ?? 0;
+    if (count === 0) return;
+    const next = Math.min(handFocus, count - 1);
+    setHandFocus(next);
+    handRefs.current[next]?.focus();
+  }, [gameState.players[mySeat]?.hand.length]);
 
-    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+  // Shortcuts: L / R play on an end, H toggles the hint, P pauses, Escape puts a picked-up tile back
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  // Game Loop (the server runs it for online games)
+  useEffect(() => {
+    if (gameState.status !== 'playing' || onlineGame || paused) return;
+    const delays = SPEED_DELAYS[skipping ? 'instant' : speed];
 
-    // Check for Win Condition: Domino (Empty Hand)
-    if (currentPlayer.hand.length === 0) {
-      handleRoundEnd('domino', currentPlayer.team);
+    // Domino or Tranque ends the round before anyone else moves
+    const roundEnd = getRoundEndAction(gameState);
+    if (roundEnd) {
+      setSkipping(false);
+      const finished = reduce(gameState, roundEnd);
+      const nextMatch = recordRound(localMatch, finished);
+      dispatch(roundEnd);
+      setMatch(nextMatch);
+      setHistory(saveHistory([...history, exportRound(finished)]));
+      // Pass-and-play rounds have no single player to credit
+      const stat = hotSeat ? null : roundStat(finished, mySeat, nextMatch);
+      if (stat) setStats(saveStats([...stats, stat]));
       return;
     }
 
-    // Check for Lock (Tranque)
-    const allHands = gameState.players.flatMap(p => p.hand);
-    const anyValidMove = gameState.players.some(p => 
-      getValidMoves(p.hand, gameState.leftEnd, gameState.rightEnd).length > 0
-    );
-
-    if (!anyValidMove && gameState.board.length > 0) {
-       // Tranque logic
-       let minPips = 1000;
-       let winningTeam = -1;
-       
-       gameState.players.forEach(p => {
-         const pips = p.hand.reduce((sum, t) => sum + getTileSum(t), 0);
-         if (pips < minPips) {
-           minPips = pips;
-           winningTeam = p.team;
-         } else if (pips === minPips) {
-           winningTeam = p.team; 
-         }
-       });
-       handleRoundEnd('tranque', winningTeam);
-       return;
-    }
+    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
     // Bot Turn Logic
     if (currentPlayer.isBot) {
-      const timer = setTimeout(() => {
-        executeBotTurn(currentPlayer);
-      }, BOT_DELAY_MS);
-      return () => clearTimeout(timer);
-    } else {
-      // User turn - check if forced pass
+      // Think while the delay runs, then move once both are done
+      const controller = new AbortController();
+      const delay = new Promise(resolve => setTimeout(resolve, delays.bot));
+      const strategy = getStrategy(seatStrategies[currentPlayer.id] ?? DEFAULT_STRATEGY_ID);
+      Promise.all([strategy.chooseMove(getSeatView(gameState, currentPlayer.id), controller.signal), delay]).then(([move]) => {
+        if (!controller.signal.aborted) executeBotTurn(gameState, currentPlayer, move);
+      }).catch(err => {
+        if (controller.signal.aborted || (err instanceof DOMException && err.name === 'AbortError')) return;
+        // A broken strategy (say, one added with registerStrategy) mustn't freeze the table
+        executeBotTurn(gameState, currentPlayer, fallbackMove(getSeatView(gameState, currentPlayer.id)));
+      });
+      return () => controller.abort();
+    } else if (!needsHandoff) {
+      // User turn - check if forced draw or pass
       const validMoves = getValidMoves(currentPlayer.hand, gameState.leftEnd, gameState.rightEnd);
       if (validMoves.length === 0 && gameState.board.length > 0) {
+        // Nothing to decide, so a fast-forward carries on through it
         const timer = setTimeout(() => {
-           handlePass(currentPlayer);
-        }, 1500); // Slightly faster auto-pass for user than bot move
+           dispatch(getStuckAction(gameState, currentPlayer.id));
+        }, delays.autoPass);
         return () => clearTimeout(timer);
       }
     }
+    // A human has a move to make, which is as far as a fast-forward goes
+    setSkipping(false);
 
-  }, [gameState.currentPlayerIndex, gameState.status, gameState.board.length]);
+  // Events rather than board length, so a draw (same player, same board) still re-runs the loop
+  }, [gameState.currentPlayerIndex, gameState.status, gameState.events.length, viewerSeat, paused, skipping, speed]);
 
-  const startGame = () => {
-    const deck = shuffleDeck(generateDeck());
-    
-    // Deal 10 to each
-    const players: Player[] = [
-      { id: 0, name: 'You', isBot: false, hand: deck.slice(0, 10), team: 0 },
-      { id: 1, name: 'Bot 1 (Left)', isBot: true, hand: deck.slice(10, 20), team: 1 },
-      { id: 2, name: 'Bot 2 (Partner)', isBot: true, hand: deck.slice(20, 30), team: 0 },
-      { id: 3, name: 'Bot 3 (Right)', isBot: true, hand: deck.slice(30, 40), team: 1 },
-    ];
-    
-    const boneyard = deck.slice(40);
-
-    const { starterIndex, startTile } = determineStarter(players, boneyard);
-
-    const starter = players[starterIndex];
-    starter.hand = starter.hand.filter(t => !areTilesEqual(t, startTile));
-
-    const initialBoard = [startTile];
-    const leftEnd = startTile[0];
-    const rightEnd = startTile[1];
-
-    const getNextPlayer = (current: number) => (current - 1 + 4) % 4;
-    const actualNextIndex = getNextPlayer(starterIndex);
-
-    setGameState({
-      ...initialGameState,
-      status: 'playing',
-      players,
-      boneyard,
-      board: initialBoard,
-      leftEnd,
-      rightEnd,
-      currentPlayerIndex: actualNextIndex,
-      logs: [`Game Started. ${starter.name} leads with [${startTile[0]}|${startTile[1]}].`],
-      passHistory: { 0: [], 1: [], 2: [], 3: [] }
-    });
+  // Autosave after every change to the local game; online games are kept by the server
+  useEffect(() => {
+    if (localState.status === 'idle') return;
+    saveGame(localState, localMatch, { targetScore, rules, options, seatStrategies, undoEnabled, viewerSeat });
+  }, [localState, localMatch, targetScore, rules, options, seatStrategies, undoEnabled, viewerSeat]);
+
+  // Take-backs don't survive a reload, everything else picks up where it was
+  const resumeSavedGame = () => {
+    if (!savedGame?.save) return;
+    const { game, match: savedMatch, settings } = savedGame.save;
+    setTargetScore(settings.targetScore);
+    setRules(settings.rules);
+    setOptions(settings.options);
+    setSeatStrategies(s => ({ ...s, ...settings.seatStrategies }));
+    setUndoEnabled(settings.undoEnabled);
+    setViewerSeat(settings.viewerSeat);
+    setMatch(savedMatch);
+    dispatch({ type: 'resume', snapshot: game });
+    setSavedGame(null);
+  };
+
+  const discardSavedGame = () => {
+    clearSave();
+    setSavedGame(null);
+  };
+
+  // Pass a seed to replay a specific deal, otherwise a fresh one is rolled.
+  // leader null means the highest double opens (first hand of a match).
+  const startGame = (seed: number = randomSeed(), seat: number = 0, leader: number | null = match.nextLeader) => {
+    dispatch({ type: 'deal', deck: rotateDealSeats(dealFromSeed(seed), seat, tableOptions.playerCount), seed, rules, options: tableOptions, leader: leader ?? undefined, seats: seatSetup });
+    setUndoStack([]);
+    setViewerSeat(0);
+    setPaused(false);
+    setSkipping(false);
+    setShowReview(false);
+    setPuzzle(null);
     setSidebarOpen(false); // Auto close sidebar on mobile start
   };
 
-  const getNextPlayerIndex = (current: number) => (current - 1 + 4) % 4;
+  const changeSpeed = (value: GameSpeed) => {
+    setSpeed(value);
+    saveSpeed(value);
+  };
+
+  // Fresh scoreboard, then deal the first round
+  const startMatch = (seed?: number, seat?: number) => {
+    setMatch(createMatch(targetScore, getTeamCount(tableOptions)));
+    startGame(seed, seat, null);
+  };
+
+  // Table setup is picked on the start screen and fixed for the rest of the match
+  const tableOptions = gameState.status === 'idle' || isMatchOver(match) ? normalizeOptions(options) : gameState.options;
+  const seatLabels = getSeatLabels(tableOptions);
 
-  const handlePass = (player: Player) => {
-    setGameState(prev => {
-      const missed = [];
-      if (prev.leftEnd !== null) missed.push(prev.leftEnd);
-      if (prev.rightEnd !== null && prev.rightEnd !== prev.leftEnd) missed.push(prev.rightEnd);
+  // Pass-and-play: other seats set to human share this device with seat 0
+  const humanSeats = [0, ...[1, 2, 3].filter(seat => seat < tableOptions.playerCount && seatStrategies[seat] === HUMAN_SEAT)];
+  const hotSeat = !onlineGame && humanSeats.length > 1;
+  const seatSetup = hotSeat
+    ? createPlayers([], tableOptions).map(p => humanSeats.includes(p.id) ? { name: `Player ${p.id + 1}`, isBot: false } : { name: p.name, isBot: true })
+    : undefined;
+  // A different human is up: hide the table until they say they're ready
+  const turnPlayer = gameState.players[gameState.currentPlayerIndex];
+  const needsHandoff = !onlineGame && gameState.status === 'playing' && !!turnPlayer && !turnPlayer.isBot && turnPlayer.id !== viewerSeat;
 
-      const newPassHistory = { ...prev.passHistory, [player.id]: [...prev.passHistory[player.id], ...missed] };
+  const enteredSeed = dealCodeInput.trim() ? parseDealCode(dealCodeInput) : null;
+  const dealCodeError = dealCodeInput.trim() !== '' && enteredSeed === null;
+  const dealCode = gameState.seed !== null ? seedToDealCode(gameState.seed) : null;
 
-      return {
-        ...prev,
-        currentPlayerIndex: getNextPlayerIndex(prev.currentPlayerIndex),
-        logs: [...prev.logs, `${player.name} passes (Knock).`],
-        passHistory: newPassHistory
-      };
-    });
+  const exportCurrentRound = () => {
+    downloadFile(roundRecordFileName(gameState), JSON.stringify(exportRound(gameState), null, 2));
   };
 
-  const handleRoundEnd = (reason: 'domino' | 'tranque', winningTeam: number) => {
-    setGameState(prev => {
-      const scores = calculateScores(prev.players);
-      const points = winningTeam === 0 ? scores.team1 : scores.team0;
-      
-      return {
-        ...prev,
-        status: 'round_over',
-        winner: { team: winningTeam, reason, points },
-        logs: [...prev.logs, `Round Over! ${winningTeam === 0 ? 'Your team' : 'Opponents'} won via ${reason}. Points: ${points}.`]
-      };
-    });
+  const onReplayFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-opening the same file
+    if (!file) return;
+    try {
+      const record = parseRoundRecord(await readFileAsText(file));
+      buildReplayStates(record.events); // Reject records the engine won't accept
+      setReplayError(null);
+      setReplay(record);
+      setSidebarOpen(false);
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Could not read replay file.');
+    }
+  };
+
+  // A set-up position is a one-off round with its own scoreboard; a puzzle also gets its first play judged
+  const startPosition = (position: Position, solving: Puzzle | null = null) => {
+    dispatch({ type: 'setup', position, rules });
+    setOptions(position.options);
+    setMatch(createMatch(targetScore, getTeamCount(position.options)));
+    setUndoStack([]);
+    setViewerSeat(0);
+    setPaused(false);
+    setSkipping(false);
+    setShowReview(false);
+    setPuzzle(solving && { puzzle: solving, result: null });
+    setShowEditor(false);
+    setSidebarOpen(false);
+  };
+
+  const onPuzzleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parsePuzzle(await readFileAsText(file));
+      setPuzzleError(null);
+      startPosition(loaded.position, loaded.solution.length > 0 ? loaded : null);
+    } catch (err) {
+      setPuzzleError(err instanceof Error ? err.message : 'Could not read puzzle file.');
+    }
   };
 
-  const executeBotTurn = (bot: Player) => {
-    const nextPlayerId = getNextPlayerIndex(bot.id);
-    const move = calculateBotMove(bot.hand, gameState.leftEnd, gameState.rightEnd, gameState.passHistory, nextPlayerId);
+  const copyDealCode = () => {
+    if (dealCode) navigator.clipboard?.writeText(dealCode).catch(() => {});
+  };
+
+  // Only a full record can be written out; an online seat never sees the other hands
+  const notation = useMemo(() => {
+    if (gameState.status !== 'round_over') return null;
+    try {
+      return formatNotation(gameState.events);
+    } catch {
+      return null;
+    }
+  }, [gameState.status, gameState.events]);
+
+  const copyNotation = () => {
+    if (notation) navigator.clipboard?.writeText(notation).catch(() => {});
+  };
+
+  const watchNotation = (events: GameEvent[]) => {
+    const states = buildReplayStates(events);
+    setReplay({ ...exportRound(states[states.length - 1]), events });
+    setShowNotation(false);
+    setSidebarOpen(false);
+  };
+
+  const matchOver = isMatchOver(match);
+
+  // The difficulty buttons set every bot at once; they only light up while all bots agree
+  const setAllBots = (d: BotDifficulty) =>
+    setSeatStrategies(s => Object.fromEntries([1, 2, 3].map(seat => [seat, s[seat] === HUMAN_SEAT ? HUMAN_SEAT : d])));
+  const botStrategyIds = [1, 2, 3]
+    .filter(seat => seat < tableOptions.playerCount && !humanSeats.includes(seat))
+    .map(seat => seatStrategies[seat] ?? DEFAULT_STRATEGY_ID);
+  const sharedDifficulty = botStrategyIds.every(id => id === botStrategyIds[0]) && botStrategyIds[0] in DIFFICULTY_LABELS
+    ? botStrategyIds[0] as BotDifficulty
+    : null;
 
+  const executeBotTurn = (state: GameState, bot: Player, move: Move | null) => {
     if (move) {
       applyMove(bot.id, move.tile, move.side);
     } else {
-      handlePass(bot);
+      dispatch(getStuckAction(state, bot.id));
     }
   };
 
-  const applyMove = (playerId: number, tile: Tile, side: 'left' | 'right') => {
-    setGameState(prev => {
-      const player = prev.players.find(p => p.id === playerId)!;
-      const newHand = player.hand.filter(t => !areTilesEqual(t, tile));
-      const newPlayers = prev.players.map(p => p.id === playerId ? { ...p, hand: newHand } : p);
-      
-      let newLeft = prev.leftEnd!;
-      let newRight = prev.rightEnd!;
-      let newBoard = [...prev.board];
-      
-      if (side === 'left') {
-        if (tile[0] === newLeft) {
-          newLeft = tile[1];
-        } else if (tile[1] === newLeft) {
-          newLeft = tile[0];
-        }
-        newBoard.unshift(tile);
-      } else {
-        if (tile[0] === newRight) {
-           newRight = tile[1];
-        } else if (tile[1] === newRight) {
-           newRight = tile[0];
-        }
-        newBoard.push(tile);
-      }
+  const applyMove = (playerId: number, tile: Tile, side: Side) => {
+    dispatch({ type: 'play', playerId, tile, side });
+  };
+
+  // The user's decisions are the undo points; bot replies get rolled back along with them
+  const playUserMove = (tile: Tile, side: Side) => {
+    setShowHint(false);
+    if (onlineGame) {
+      online.send({ type: 'play', tile, side });
+      return;
+    }
+    if (undoEnabled) setUndoStack(stack => [...stack, gameState]);
+    if (puzzle && !puzzle.result) setPuzzle({ ...puzzle, result: isPuzzleSolution(puzzle.puzzle, { tile, side }) ? 'solved' : 'missed' });
+    applyMove(mySeat, tile, side);
+  };
 
-      return {
-        ...prev,
-        players: newPlayers,
-        board: newBoard,
-        leftEnd: newLeft,
-        rightEnd: newRight,
-        currentPlayerIndex: getNextPlayerIndex(prev.currentPlayerIndex),
-        logs: [...prev.logs, `${player.name} plays [${tile[0]}|${tile[1]}] on the ${side}.`]
-      };
-    });
+  const undoLastMove = () => {
+    const snapshot = undoStack[undoStack.length - 1];
+    if (!snapshot || gameState.status !== 'playing') return;
+    dispatch({ type: 'undo', snapshot });
+    setUndoStack(stack => stack.slice(0, -1));
+    // Back to the puzzle position, so the retry gets judged instead
+    if (puzzle && snapshot.events.length === 1) setPuzzle({ ...puzzle, result: null });
   };
 
+  const toggleUndo = () => {
+    setUndoEnabled(on => !on);
+    setUndoStack([]);
+  };
+
+  const isUserTurn = gameState.status === 'playing' && gameState.currentPlayerIndex === mySeat;
+  const puzzlePending = !!puzzle && !puzzle.result && gameState.status === 'playing'; // No hints until it's been tried
+  const isSalida = gameState.status === 'playing' && gameState.board.length === 0;
+  const showDropZones = isUserTurn && placingTile !== null;
+
+  // Seat that chose this round's opening, if it wasn't a forced highest double
+  const dealEvent = gameState.events.find(e => e.type === 'deal');
+  const currentLeader = dealEvent?.type === 'deal' && dealEvent.tile === null ? dealEvent.starter : null;
+  const hintAnalyses = showHint && isUserTurn
+    ? analyzeMoves(gameState.players[mySeat].hand, gameState.leftEnd, gameState.rightEnd, gameState.passHistory, getNextPlayerIndex(mySeat, gameState.players.length), getPartnerInfo(gameState, mySeat))
+    : [];
+
+  // Needs every hand in the events, and one player whose choices they were
+  const canReview = !onlineGame && !hotSeat && gameState.status === 'round_over';
+  const canUndo = !onlineGame && !hotSeat && undoEnabled && undoStack.length > 0 && gameState.status === 'playing';
+
   const onUserTileClick = (tile: Tile) => {
-    if (gameState.currentPlayerIndex !== 0 || gameState.status !== 'playing') return;
+    if (!isUserTurn) return;
 
     const validMoves = getValidMoves([tile], gameState.leftEnd, gameState.rightEnd);
 
     if (validMoves.length === 0) return;
     
-    if (validMoves.length === 1) {
-      applyMove(0, tile, validMoves[0].side);
+    // Only one place it can go (or both ends show the same number): no need to ask
+    if (validMoves.length === 1 || gameState.leftEnd === gameState.rightEnd) {
+      playUserMove(tile, validMoves[0].side);
+    } else if (selectedTile && areTilesEqual(selectedTile, tile)) {
+      setSelectedTile(null);
     } else {
-      if (gameState.leftEnd === gameState.rightEnd) {
-         applyMove(0, tile, 'left'); 
-      } else {
-         const choice = window.confirm(`Play [${tile[0]}|${tile[1]}] on Left (${gameState.leftEnd}) or Right (${gameState.rightEnd})? OK for Left, Cancel for Right.`);
-         applyMove(0, tile, choice ? 'left' : 'right');
-      }
+      // Fits both ends: pick it up, then tap the end to play it on
+      setSelectedTile(tile);
+      announce(`${tileLabel(tile)} picked up. Choose an end, or press L or R.`);
     }
   };
 
-  const getVisualChain = () => {
-    if (gameState.board.length === 0) return [];
-    let expectedMatch = gameState.leftEnd;
-    return gameState.board.map((tile, idx) => {
-        const [a, b] = tile;
-        let oriented: Tile = [a, b];
-        if (a === expectedMatch) {
-            oriented = [a, b];
-            expectedMatch = b;
-        } else {
-            oriented = [b, a];
-            expectedMatch = a;
-        }
-        return oriented;
-    });
+  // Dropped or tapped onto a board end
+  const placeOnEnd = (tile: Tile, side: Side) => {
+    if (!isUserTurn || !fitsEnd(tile, side)) return;
+    playUserMove(tile, side);
+  };
+
+  const fitsEnd = (tile: Tile, side: Side) => getValidMoves([tile], gameState.leftEnd, gameState.rightEnd).some(m => m.side === side);
+
+  const announce = (text: string) => setAnnouncement(a => ({ id: a.id + 1, text }));
+
+  // L / R: the picked-up tile, or else the one focused in the hand
+  const playFromKeyboard = (side: Side) => {
+    const hand = gameState.players[mySeat]?.hand ?? [];
+    const focusedInHand = handRefs.current.some(el => el && el === document.activeElement);
+    const tile = selectedTile ?? (focusedInHand ? hand[Math.min(handFocus, hand.length - 1)] : null);
+    if (!isUserTurn) return announce("It's not your turn.");
+    if (!tile) return announce('Pick a tile first: tab to your hand and use the arrow keys.');
+    const target = isSalida ? 'left' : side; // The lead goes in the middle, either key will do
+    if (!fitsEnd(tile, target)) return announce(`${tileLabel(tile)} doesn't fit on the ${side}.`);
+    refocusHand.current = focusedInHand;
+    placeOnEnd(tile, target);
+  };
+
+  // Modals and overlays keep the keys to themselves
+  const shortcutsBlocked = !!replay || showHistory || showStats || showRules || showEditor || showNotation || !!savedGame || needsHandoff ||
+    (online.active && !onlineGame) || gameState.status !== 'playing';
+
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || shortcutsBlocked) return;
+    if ((e.target as HTMLElement).closest?.('input, select, textarea')) return;
+    const key = e.key.toLowerCase();
+    if (key === 'escape') setSelectedTile(null);
+    else if (key === 'h' && isUserTurn && !puzzlePending) setShowHint(h => !h);
+    else if (key === 'p' && !onlineGame) setPaused(p => !p);
+    else if (key === 'l' || key === 'r') playFromKeyboard(key === 'l' ? 'left' : 'right');
+    else return;
+    e.preventDefault();
+  };
+
+  // Arrow keys walk the hand, Enter or Space plays (or picks up) the focused tile
+  const onHandKeyDown = (e: React.KeyboardEvent) => {
+    const count = gameState.players[mySeat]?.hand.length ?? 0;
+    if (count === 0) return;
+    const current = Math.min(handFocus, count - 1);
+    const targets: Record<string, number> = { ArrowLeft: current - 1, ArrowRight: current + 1, ArrowUp: current - 5, ArrowDown: current + 5, Home: 0, End: count - 1 };
+    if (e.key in targets) {
+      e.preventDefault();
+      const next = Math.max(0, Math.min(count - 1, targets[e.key]));
+      setHandFocus(next);
+      handRefs.current[next]?.focus();
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      refocusHand.current = true;
+      onUserTileClick(gameState.players[mySeat].hand[current]);
+    }
   };
 
-  const visualBoard = getVisualChain();
-  const user = gameState.players[0];
-  const botLeft = gameState.players[1];
-  const botPartner = gameState.players[2];
-  const botRight = gameState.players[3];
+  const visualBoard = getVisualChain(gameState.board, gameState.leftEnd);
+  // Leave room for the board's own padding inside the container
+  const boardLayout = useMemo(
+    () => layoutBoard(visualBoard, getOpeningIndex(gameState.events), { width: Math.max(0, boardSize.width - 16), height: Math.max(0, boardSize.height - 16) }),
+    [gameState.board, gameState.events, boardSize]
+  );
+  // Seats around the table, counted from ours: 2 players sit across, 3 leave the top empty
+  const playerCount = gameState.players.length;
+  const seatAt = (offset: number) => gameState.players[(mySeat + offset) % playerCount];
+  const user = gameState.players[mySeat];
+  const leftPlayer = playerCount >= 3 ? seatAt(1) : undefined;
+  const topPlayer = playerCount === 4 ? seatAt(2) : playerCount === 2 ? seatAt(1) : undefined;
+  const rightPlayer = playerCount === 4 ? seatAt(3) : playerCount === 3 ? seatAt(2) : undefined;
+  // With several humans on one device "You" keeps changing, so name teams neutrally from seat 0's side
+  const nameViewer = hotSeat ? null : mySeat;
+  const userTeam = (hotSeat ? gameState.players[0] : user)?.team ?? 0;
+  const seatedPlayers = playerCount > 0 ? gameState.players : createPlayers([], tableOptions, seatSetup); // Names before the first deal
+  const teamNames = match.scores.map((_, team) => getTeamName(seatedPlayers, team, nameViewer));
+  const teamShortNames = match.scores.length === 2
+    ? match.scores.map((_, team) => (team === userTeam ? 'Us' : 'Them'))
+    : teamNames.map(name => name.split(' (')[0]);
+  const matchWinnerName = match.winner !== null ? teamNames[match.winner] : '';
 
   return (
     <div className="h-screen w-screen bg-stone-900 text-stone-100 font-sans flex flex-col md:flex-row overflow-hidden select-none touch-manipulation">
@@ -285,8 +526,11 @@ export default function App() {
          </div>
          {gameState.status === 'playing' && (
            <div className="flex gap-4 text-xs font-mono">
-              <span className="text-green-400">Us: {gameState.winner?.team === 0 ? gameState.winner.points : 0}</span>
-              <span className="text-red-400">Them: {gameState.winner?.team === 1 ? gameState.winner.points : 0}</span>
+              {match.scores.map((score, team) => (
+                <span key={team} className={team === userTeam ? 'text-green-400' : 'text-red-400'}>{teamShortNames[team]}: {score}</span>
+              ))}
+              <span className="text-stone-500">/{match.targetScore}</span>
+              {dealCode && <span className="text-stone-400">#{dealCode}</span>}
            </div>
          )}
          <button onClick={() => setSidebarOpen(!isSidebarOpen)} className="p-2 text-stone-300">
@@ -304,6 +548,11 @@ export default function App() {
             <Trophy className="w-5 h-5" /> Cuban Double-9
           </h1>
           <p className="text-xs text-stone-400 mt-1">Practice Mode • Counter-Clockwise</p>
+          {dealCode && (
+            <button onClick={copyDealCode} title="Copy deal code" className="mt-2 flex items-center gap-1 text-xs font-mono text-stone-300 hover:text-yellow-400">
+              <Hash className="w-3 h-3" /> Deal {dealCode} <Copy className="w-3 h-3 opacity-60" />
+            </button>
+          )}
         </div>
 
         {/* Mobile Sidebar Close Button */}
@@ -313,25 +562,63 @@ export default function App() {
 
         {/* Score Board */}
         <div className="p-4 border-b border-stone-700 shrink-0">
-          <div className="flex justify-between items-center bg-stone-700 rounded-lg p-3">
-             <div className="text-center">
-               <div className="text-xs text-stone-400 uppercase font-bold">You & Bot 2</div>
-               <div className="text-2xl font-bold text-green-400">
-                  {gameState.winner?.team === 0 ? `+${gameState.winner.points}` : '0'}
-               </div>
-             </div>
-             <div className="text-stone-500">vs</div>
-             <div className="text-center">
-               <div className="text-xs text-stone-400 uppercase font-bold">Bots 1 & 3</div>
-               <div className="text-2xl font-bold text-red-400">
-                 {gameState.winner?.team === 1 ? `+${gameState.winner.points}` : '0'}
-               </div>
-             </div>
+          <ScoreBoard match={match} teamNames={teamNames} shortNames={teamShortNames} userTeam={userTeam} />
+        </div>
+
+        {/* Online room */}
+        {online.active && online.room && (
+          <div className="px-4 py-2 border-b border-stone-700 shrink-0 flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-stone-300">
+              <Globe className="w-4 h-4" /> Room <span className="font-mono font-bold text-yellow-400">{online.room.code}</span>
+              {!online.connected && <span className="text-xs text-red-400">offline</span>}
+            </span>
+            <button onClick={online.leave} className="flex items-center gap-1 text-xs text-stone-400 hover:text-white">
+              <LogOut className="w-3 h-3" /> Leave
+            </button>
           </div>
+        )}
+
+        {/* Replay Loader */}
+        <div className="px-4 py-2 border-b border-stone-700 shrink-0">
+          <button onClick={() => replayInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 text-sm py-2 bg-stone-700 hover:bg-stone-600 rounded-lg text-stone-200">
+            <FolderOpen className="w-4 h-4" /> Open Replay
+          </button>
+          <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={onReplayFileChosen} />
+          {replayError && <div className="text-xs text-red-400 mt-1">{replayError}</div>}
+          <button onClick={() => setShowNotation(true)} className="w-full mt-2 flex items-center justify-center gap-2 text-sm py-2 bg-stone-700 hover:bg-stone-600 rounded-lg text-stone-200">
+            <FileText className="w-4 h-4" /> Paste Notation
+          </button>
+          <button onClick={() => setShowHistory(true)} className="w-full mt-2 flex items-center justify-center gap-2 text-sm py-2 bg-stone-700 hover:bg-stone-600 rounded-lg text-stone-200">
+            <History className="w-4 h-4" /> Round History <span className="text-xs text-stone-400">({history.length})</span>
+          </button>
+          <button onClick={() => setShowStats(true)} className="w-full mt-2 flex items-center justify-center gap-2 text-sm py-2 bg-stone-700 hover:bg-stone-600 rounded-lg text-stone-200">
+            <BarChart3 className="w-4 h-4" /> Statistics
+          </button>
+        </div>
+
+        {/* Practice Options */}
+        <div className="px-4 py-2 border-b border-stone-700 shrink-0">
+          <label className="flex items-center justify-between text-sm text-stone-300 cursor-pointer">
+            <span className="flex items-center gap-2"><Undo2 className="w-4 h-4" /> Allow take-backs</span>
+            <input type="checkbox" checked={undoEnabled} onChange={toggleUndo} className="accent-yellow-500 w-4 h-4" />
+          </label>
+          <div className="flex items-center justify-between text-sm text-stone-300 mt-2">
+            <span>Bots</span>
+            <DifficultyPicker value={sharedDifficulty} onChange={setAllBots} />
+          </div>
+          <div className="flex items-center justify-between text-sm text-stone-300 mt-2">
+            <span className="flex items-center gap-2"><Gauge className="w-4 h-4" /> Speed</span>
+            <SpeedPicker value={speed} onChange={changeSpeed} />
+          </div>
+          <button onClick={() => setShowRules(true)} className="w-full flex items-center justify-between text-sm text-stone-300 mt-2 hover:text-white">
+            <span className="flex items-center gap-2"><Settings className="w-4 h-4" /> House rules</span>
+            <span className="text-xs font-bold text-yellow-400">{rules.name}</span>
+          </button>
         </div>
 
         {/* Game Log */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-2 font-mono text-sm min-h-0" ref={scrollRef}>
+        {/* The live region below does the announcing, so the log itself stays quiet */}
+        <div role="log" aria-label="Game log" aria-live="off" className="flex-1 overflow-y-auto p-4 space-y-2 font-mono text-sm min-h-0" ref={scrollRef}>
           {gameState.logs.length === 0 && <span className="text-stone-500 italic">Game logs will appear here...</span>}
           {gameState.logs.map((log, i) => (
             <div key={i} className={`pb-1 border-b border-stone-700/50 ${log.includes('You') ? 'text-yellow-200' : 'text-stone-300'}`}>
@@ -348,83 +635,257 @@ export default function App() {
              style={{ backgroundImage: `url("https://www.transparenttextures.com/patterns/felt.png")` }}></div>
 
         {/* Start Game Overlay (Centered) */}
-        {(gameState.status === 'idle' || gameState.status === 'round_over') && (
-           <div className="absolute inset-0 z-30 flex items-center justify-center p-4 bg-black/40 backdrop-blur-[2px]">
+        {gameState.status === 'idle' && !online.active && (
+           <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-6 p-4 bg-black/40 backdrop-blur-[2px]">
+              <div className="bg-stone-800/90 rounded-xl p-4 border border-stone-600 text-center">
+                <div className="text-xs text-stone-400 uppercase font-bold mb-2">Play to</div>
+                <div className="flex gap-2">
+                  {TARGET_SCORE_OPTIONS.map(target => (
+                    <button
+                      key={target}
+                      onClick={() => setTargetScore(target)}
+                      className={`px-4 py-2 rounded-lg font-bold font-mono ${targetScore === target ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}
+                    >
+                      {target}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="bg-stone-800/90 rounded-xl p-4 border border-stone-600 text-center">
+                <div className="text-xs text-stone-400 uppercase font-bold mb-2">Bot difficulty</div>
+                <div className="flex justify-center"><DifficultyPicker value={sharedDifficulty} onChange={setAllBots} /></div>
+                <div className="mt-3 space-y-1">
+                  {seatedPlayers.filter(p => p.id !== 0).map(p => (
+                    <label key={p.id} className="flex items-center justify-between gap-2 text-xs text-stone-300">
+                      <span>{p.name}</span>
+                      <select
+                        value={seatStrategies[p.id] ?? DEFAULT_STRATEGY_ID}
+                        onChange={e => setSeatStrategies(s => ({ ...s, [p.id]: e.target.value }))}
+                        className="bg-stone-900 border border-stone-600 rounded px-1 py-0.5 text-stone-100"
+                      >
+                        {listStrategies().map(strategy => (
+                          <option key={strategy.id} value={strategy.id} title={strategy.description}>{strategy.name}</option>
+                        ))}
+                        <option value={HUMAN_SEAT}>Human (pass &amp; play)</option>
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <button onClick={() => setShowRules(true)} className="mt-3 text-xs text-stone-300 hover:text-white flex items-center gap-1 mx-auto">
+                  <Settings className="w-3 h-3" /> Rules: <span className="font-bold text-yellow-400">{rules.name}</span>
+                </button>
+              </div>
+              <div className="bg-stone-800/90 rounded-xl p-4 border border-stone-600 text-center">
+                <div className="text-xs text-stone-400 uppercase font-bold mb-2">Table</div>
+                <TableOptionsPicker value={options} onChange={next => { setOptions(next); setDealSeat(0); setMatch(createMatch(targetScore, getTeamCount(next))); }} />
+              </div>
+              <div className="bg-stone-800/90 rounded-xl p-4 border border-stone-600 text-center">
+                <div className="text-xs text-stone-400 uppercase font-bold mb-2">Deal code (optional)</div>
+                <input
+                  value={dealCodeInput}
+                  onChange={e => setDealCodeInput(e.target.value)}
+                  placeholder="Random deal"
+                  maxLength={7}
+                  className={`w-40 px-3 py-2 rounded-lg bg-stone-900 font-mono uppercase text-center text-stone-100 border ${dealCodeError ? 'border-red-500' : 'border-stone-600'}`}
+                />
+                {dealCodeError && <div className="text-xs text-red-400 mt-1">Not a valid deal code</div>}
+                {enteredSeed !== null && (
+                  <div className="flex gap-1 justify-center mt-2">
+                    {seatLabels.map((label, seat) => (
+                      <button
+                        key={seat}
+                        onClick={() => setDealSeat(seat)}
+                        className={`px-2 py-1 rounded text-xs font-bold ${dealSeat === seat ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <button 
-                onClick={startGame}
+                onClick={() => startMatch(enteredSeed ?? undefined, enteredSeed !== null ? dealSeat : 0)}
+                disabled={dealCodeError}
                 className="px-8 py-4 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold text-xl rounded-full shadow-2xl flex items-center gap-3 transform hover:scale-105 transition-all animate-bounce-slow border-4 border-yellow-300/50"
               >
-                {gameState.status === 'idle' ? <Play className="w-8 h-8" /> : <RotateCcw className="w-8 h-8" />}
-                {gameState.status === 'idle' ? 'Start Game' : 'Play Again'}
+                <Play className="w-8 h-8" />
+                Start Match
+              </button>
+              <button onClick={online.open} className="text-sm text-stone-200 hover:text-white flex items-center gap-2">
+                <Globe className="w-4 h-4" /> Play online with friends
               </button>
+              <div className="flex gap-4">
+                <button onClick={() => setShowEditor(true)} className="text-sm text-stone-200 hover:text-white flex items-center gap-2">
+                  <PencilRuler className="w-4 h-4" /> Set up a position
+                </button>
+                <button onClick={() => puzzleInputRef.current?.click()} className="text-sm text-stone-200 hover:text-white flex items-center gap-2">
+                  <PuzzleIcon className="w-4 h-4" /> Solve a puzzle
+                </button>
+                <input ref={puzzleInputRef} type="file" accept="application/json,.json" className="hidden" onChange={onPuzzleFileChosen} />
+              </div>
+              {puzzleError && <div className="text-xs text-red-400">{puzzleError}</div>}
            </div>
         )}
 
+        {online.active && !onlineGame && <OnlineLobby online={online} options={tableOptions} rules={rules} targetScore={targetScore} />}
+
         {/* Players Layout */}
         <div className="flex-1 flex flex-col relative z-10 p-2 min-h-0">
           
-          {/* Top: Partner (Bot 2) */}
+          {/* Top: Partner (Bot 2), or the only opponent heads-up */}
           <div className="h-16 md:h-20 shrink-0 flex justify-center items-start">
-             <PlayerArea player={botPartner} isActive={gameState.currentPlayerIndex === 2} />
+             <PlayerArea player={topPlayer} isActive={gameState.currentPlayerIndex === topPlayer?.id} />
           </div>
 
           {/* Middle: Left (Bot 1) - Board - Right (Bot 3) */}
           <div className="flex-1 flex overflow-hidden min-h-0 relative">
              <div className="w-16 md:w-24 shrink-0 flex items-center justify-start z-10 pl-1">
-               <PlayerArea player={botLeft} isActive={gameState.currentPlayerIndex === 1} vertical />
+               <PlayerArea player={leftPlayer} isActive={gameState.currentPlayerIndex === leftPlayer?.id} vertical />
              </div>
 
-             {/* The Snake (Board) with Zoom-To-Fit */}
+             {/* The Snake (Board), wrapping at the edges */}
              <div 
                ref={boardContainerRef}
-               className="flex-1 flex items-center justify-center p-1 md:p-2 overflow-hidden relative"
+               role="region"
+               aria-label={gameState.board.length === 0 ? 'Board, empty' : `Board, ${gameState.board.length} tiles. Left end ${gameState.leftEnd}, right end ${gameState.rightEnd}.`}
+               className="flex-1 flex p-2 overflow-auto relative"
              >
-                {/* Scalable content wrapper */}
-                <div 
-                  className="bg-emerald-800/50 rounded-2xl shadow-inner border border-emerald-700/30 flex items-center justify-center transition-transform duration-300 ease-out p-4 md:p-12 min-w-min"
-                  style={{ transform: `scale(${boardScale})` }}
-                >
-                   <div ref={boardContentRef} className="flex items-center gap-0.5">
-                      {visualBoard.length === 0 && gameState.status === 'playing' && (
-                        <div className="text-emerald-200/50 italic whitespace-nowrap text-lg">Waiting for start...</div>
-                      )}
-                      {visualBoard.map((tile, i) => (
-                        <div key={i} className="flex-shrink-0">
-                          <DominoTile 
-                             tile={tile} 
-                             size="md"
-                             orientation={isDouble(tile) ? 'vertical' : 'horizontal'}
+                {gameState.status === 'playing' && gameState.options.drawMode === 'draw' && (
+                  <div className="absolute top-1 left-1 z-10 px-2 py-0.5 rounded-full bg-stone-900/70 text-[10px] md:text-xs font-mono text-stone-300">
+                    Boneyard: {gameState.boneyard.length}
+                  </div>
+                )}
+                {gameState.status === 'playing' && !onlineGame && (
+                  <div className="absolute top-1 right-1 z-10 flex gap-1">
+                    {!isUserTurn && !paused && (
+                      <button
+                        onClick={() => setSkipping(true)}
+                        disabled={skipping}
+                        title="Skip to my turn"
+                        className="px-2 py-0.5 rounded-full bg-stone-900/70 hover:bg-stone-900 text-[10px] md:text-xs text-stone-300 flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <FastForward className="w-3 h-3" /> {skipping ? 'Skipping...' : 'Skip to my turn'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setPaused(p => !p)}
+                      title={paused ? 'Resume (P)' : 'Pause (P)'}
+                      aria-keyshortcuts="P"
+                      aria-pressed={paused}
+                      className={`px-2 py-0.5 rounded-full text-[10px] md:text-xs flex items-center gap-1 ${paused ? 'bg-yellow-500 text-stone-900 font-bold' : 'bg-stone-900/70 hover:bg-stone-900 text-stone-300'}`}
+                    >
+                      {paused ? <><Play className="w-3 h-3" /> Resume</> : <><Pause className="w-3 h-3" /> Pause</>}
+                    </button>
+                  </div>
+                )}
+                {puzzle && gameState.status !== 'idle' && (
+                  <div role="status" className="absolute top-1 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full bg-stone-900/80 text-[10px] md:text-xs text-stone-200 flex items-center gap-2 max-w-[70%]">
+                    <PuzzleIcon className="w-3 h-3 text-yellow-400 shrink-0" />
+                    <span className="truncate">
+                      {!puzzle.result ? `${puzzle.puzzle.title}: find the best play`
+                        : puzzle.result === 'solved' ? 'Correct, that was the best play!'
+                        : `Not quite. Best was ${puzzle.puzzle.solution.map(m => puzzle.puzzle.position.leftEnd === null ? tileLabel(m.tile) : `${tileLabel(m.tile)} on the ${m.side}`).join(' or ')}.`}
+                    </span>
+                  </div>
+                )}
+                {visualBoard.length === 0 ? (
+                  <div className="m-auto bg-emerald-800/50 rounded-2xl shadow-inner border border-emerald-700/30 flex items-center justify-center p-4 md:p-12">
+                    {showDropZones ? (
+                      <DropZone side="left" end={null} accepts={fitsEnd(placingTile, 'left')} hovered={drag?.over === 'left'} onSelect={() => placeOnEnd(placingTile, 'left')} />
+                    ) : gameState.status === 'playing' && (
+                      <div className="text-emerald-200/50 italic whitespace-nowrap text-lg">
+                        {isSalida ? `${gameState.players[gameState.currentPlayerIndex].name} has the salida...` : 'Waiting for start...'}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  // Sized to the scaled layout so the container can centre it, or scroll it at the minimum scale
+                  <div
+                    className="relative shrink-0 m-auto bg-emerald-800/50 rounded-2xl shadow-inner border border-emerald-700/30"
+                    style={{ width: boardLayout.width * boardLayout.scale, height: boardLayout.height * boardLayout.scale }}
+                  >
+                    <div
+                      className="absolute top-0 left-0 origin-top-left transition-transform duration-300 ease-out"
+                      style={{ width: boardLayout.width, height: boardLayout.height, transform: `scale(${boardLayout.scale})` }}
+                    >
+                      {boardLayout.tiles.map((placed, i) => (
+                        <div key={i} className="absolute" style={{ left: placed.x, top: placed.y }}>
+                          <DominoTile tile={placed.tile} size="md" orientation={placed.orientation} />
+                        </div>
+                      ))}
+                      {showDropZones && boardLayout.ends.map(slot => (
+                        <div key={slot.side} className="absolute" style={{ left: slot.x, top: slot.y }}>
+                          <DropZone
+                            side={slot.side}
+                            end={slot.side === 'left' ? gameState.leftEnd : gameState.rightEnd}
+                            orientation={slot.orientation}
+                            accepts={fitsEnd(placingTile, slot.side)}
+                            hovered={drag?.over === slot.side}
+                            onSelect={() => placeOnEnd(placingTile, slot.side)}
                           />
                         </div>
                       ))}
-                   </div>
-                </div>
+                    </div>
+                  </div>
+                )}
              </div>
 
              <div className="w-16 md:w-24 shrink-0 flex items-center justify-end z-10 pr-1">
-                <PlayerArea player={botRight} isActive={gameState.currentPlayerIndex === 3} vertical />
+                <PlayerArea player={rightPlayer} isActive={gameState.currentPlayerIndex === rightPlayer?.id} vertical />
              </div>
           </div>
 
           {/* Bottom: User - Grid Layout for full visibility */}
           <div className="shrink-0 flex flex-col justify-end items-center pb-2 pt-2">
+             {showTracker && gameState.status === 'playing' && (
+               <TileTracker inference={buildInference(gameState, mySeat)} players={gameState.players} onClose={() => setShowTracker(false)} />
+             )}
+             {showHint && isUserTurn && (
+               <HintPanel
+                 analyses={hintAnalyses}
+                 onPlay={move => playUserMove(move.tile, move.side)}
+                 onClose={() => setShowHint(false)}
+               />
+             )}
              <div className={`
                 w-full max-w-3xl p-2 md:p-4 rounded-xl transition-all duration-300
-                ${gameState.currentPlayerIndex === 0 ? 'bg-yellow-500/10 ring-2 ring-yellow-500/50 shadow-lg shadow-yellow-500/10' : 'bg-black/20'}
+                ${isUserTurn ? 'bg-yellow-500/10 ring-2 ring-yellow-500/50 shadow-lg shadow-yellow-500/10' : 'bg-black/20'}
              `}>
-                <div className="grid grid-cols-5 md:grid-cols-10 gap-2 md:gap-4 place-items-center">
+                <p id="hand-keys" className="sr-only">
+                  Arrow keys move between your tiles. Enter plays the tile, or picks it up if it fits both ends.
+                  L and R play it on the left or right end. H shows a hint, P pauses the bots.
+                </p>
+                <div
+                  role="group"
+                  aria-label={`Your hand, ${user?.hand.length ?? 0} tiles`}
+                  aria-describedby="hand-keys"
+                  onKeyDown={onHandKeyDown}
+                  className="grid grid-cols-5 md:grid-cols-10 gap-2 md:gap-4 place-items-center"
+                >
                   {user && user.hand.map((tile, i) => {
-                    const isValid = gameState.currentPlayerIndex === 0 && gameState.status === 'playing' && 
+                    const isValid = isUserTurn &&
                                     getValidMoves([tile], gameState.leftEnd, gameState.rightEnd).length > 0;
+                    const isPlacing = placingTile !== null && areTilesEqual(placingTile, tile);
                     return (
-                      <div key={i} className={`${isValid ? '-mt-1 md:-mt-2 transform scale-110' : ''} transition-all duration-200`}>
+                      <div
+                        key={i}
+                        ref={el => { handRefs.current[i] = el; }}
+                        {...bindTile(tile, isValid)}
+                        role="button"
+                        tabIndex={i === Math.min(handFocus, user.hand.length - 1) ? 0 : -1}
+                        aria-label={describeHandTile(tile, gameState.leftEnd, gameState.rightEnd)}
+                        aria-disabled={!isValid}
+                        aria-pressed={isPlacing}
+                        onFocus={() => setHandFocus(i)}
+                        className={`${isValid ? '-mt-1 md:-mt-2 transform scale-110 touch-none' : ''} ${isPlacing ? '-translate-y-3 opacity-60' : ''} transition-all duration-200 rounded-md outline-none focus-visible:ring-4 focus-visible:ring-sky-400`}
+                      >
                         <DominoTile 
                           tile={tile} 
                           size="md" // Standard size, will wrap on mobile
                           selectable={isValid}
-                          disabled={gameState.currentPlayerIndex !== 0 || gameState.status !== 'playing' || (!isValid && gameState.board.length > 0)}
+                          disabled={!isUserTurn || (!isValid && gameState.board.length > 0)}
                           highlight={isValid}
-                          onClick={() => onUserTileClick(tile)}
+                          decorative
                         />
                       </div>
                     );
@@ -432,29 +893,80 @@ export default function App() {
                 </div>
              </div>
              <div className="text-stone-300 font-bold mt-2 flex gap-2 items-center text-sm md:text-base h-6">
-                <Users className="w-4 h-4" /> You {gameState.currentPlayerIndex === 0 && <span className="text-yellow-400 text-xs animate-bounce">(Your Turn)</span>}
+                <Users className="w-4 h-4" /> {hotSeat && user ? user.name : 'You'} {isUserTurn && <span className="text-yellow-400 text-xs animate-bounce">{isSalida ? '(Your salida: lead any tile)' : selectedTile ? '(Tap an end to play it)' : '(Your Turn)'}</span>}
+                {isUserTurn && !puzzlePending && (
+                  <button onClick={() => setShowHint(h => !h)} title="Hint (H)" aria-keyshortcuts="H" className="ml-2 px-2 py-0.5 bg-stone-700 hover:bg-stone-600 rounded-md text-xs flex items-center gap-1 text-stone-200">
+                    <Lightbulb className="w-3 h-3" /> Hint
+                  </button>
+                )}
+                {gameState.status === 'playing' && (
+                  <button onClick={() => setShowTracker(t => !t)} className="ml-2 px-2 py-0.5 bg-stone-700 hover:bg-stone-600 rounded-md text-xs flex items-center gap-1 text-stone-200">
+                    <Grid3x3 className="w-3 h-3" /> Count
+                  </button>
+                )}
+                {canUndo && (
+                  <button onClick={undoLastMove} className="ml-2 px-2 py-0.5 bg-stone-700 hover:bg-stone-600 rounded-md text-xs flex items-center gap-1 text-stone-200">
+                    <Undo2 className="w-3 h-3" /> Undo
+                  </button>
+                )}
              </div>
           </div>
 
         </div>
 
+        {/* Pass-and-play privacy screen */}
+        {needsHandoff && (
+          <div className="absolute inset-0 z-40 flex flex-col items-center justify-center gap-6 p-4 bg-stone-900">
+            <Users className="w-12 h-12 text-yellow-400" />
+            <div className="text-center">
+              <h2 className="text-2xl md:text-3xl font-bold text-white">{turnPlayer.name}'s turn</h2>
+              <p className="text-stone-400 mt-2">Pass the device to {turnPlayer.name}. Everyone else, look away.</p>
+            </div>
+            <button
+              autoFocus
+              onClick={() => setViewerSeat(turnPlayer.id)}
+              className="px-8 py-4 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold text-xl rounded-full shadow-2xl"
+            >
+              I'm ready
+            </button>
+          </div>
+        )}
+
         {/* Boneyard Reveal (End of Game) - Modal */}
         {gameState.status === 'round_over' && (
           <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
             <div className="bg-stone-800 p-6 md:p-8 rounded-2xl max-w-4xl w-full border border-stone-600 shadow-2xl my-auto">
-               <h2 className="text-2xl md:text-3xl font-bold text-white mb-6 text-center">Round Summary</h2>
+               <h2 className="text-2xl md:text-3xl font-bold text-white mb-6 text-center">
+                 {matchOver ? 'Match Over' : `Round ${match.rounds.length} Summary`}
+               </h2>
+
+               {matchOver && (
+                 <div className="mb-6 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/50 text-center">
+                   <Trophy className="w-8 h-8 text-yellow-400 mx-auto mb-2" />
+                   <p className="text-xl font-bold text-yellow-300">
+                     {match.winner === userTeam ? `${matchWinnerName} win the match!` : `${matchWinnerName} ${matchWinnerName.includes('&') ? 'win' : 'wins'} the match.`}
+                   </p>
+                 </div>
+               )}
                
                <div className="grid grid-cols-2 gap-4 md:gap-8 mb-8">
                   <div className="bg-stone-900 p-4 rounded-lg">
                     <h3 className="text-green-400 font-bold mb-2 text-sm md:text-base">Winner</h3>
                     <p className="text-lg md:text-2xl text-white font-bold">
-                      {gameState.winner?.team === 0 ? 'You & Bot 2' : 'Bots 1 & 3'}
+                      {gameState.winner?.team === null ? 'Nobody (tie)' : gameState.winner ? getTeamName(gameState.players, gameState.winner.team, nameViewer) : ''}
                     </p>
                     <p className="text-stone-400 text-xs md:text-sm capitalize">{gameState.winner?.reason}</p>
+                    {gameState.undoCount > 0 && (
+                      <p className="text-yellow-500 text-xs md:text-sm">Practice round: {gameState.undoCount} take-back{gameState.undoCount === 1 ? '' : 's'} used</p>
+                    )}
                   </div>
                   <div className="bg-stone-900 p-4 rounded-lg">
                     <h3 className="text-yellow-400 font-bold mb-2 text-sm md:text-base">Points</h3>
                     <p className="text-lg md:text-2xl text-white font-bold">{gameState.winner?.points}</p>
+                    <p className="text-stone-400 text-xs md:text-sm font-mono">
+                      Match: {match.scores.join(' – ')} (to {match.targetScore})
+                    </p>
+                    {dealCode && <p className="text-stone-400 text-xs md:text-sm font-mono">Deal #{dealCode}</p>}
                   </div>
                </div>
 
@@ -465,7 +977,7 @@ export default function App() {
                       <DominoTile tile={tile} size="sm" />
                     </div>
                   ))}
-                  {gameState.players.slice(1).flatMap(p => p.hand).map((tile, i) => (
+                  {gameState.players.filter(p => p.id !== mySeat).flatMap(p => p.hand).map((tile, i) => (
                      <div key={`opp-${i}`} className="opacity-75 relative">
                         <DominoTile tile={tile} size="sm" />
                         <div className="absolute inset-0 bg-red-500/10 pointer-events-none"></div>
@@ -473,26 +985,215 @@ export default function App() {
                   ))}
                </div>
 
-               <button 
-                onClick={startGame}
-                className="mt-8 w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl shadow-lg transition-all text-lg"
-               >
-                 Start New Round
-               </button>
+               <div className={`mt-6 grid gap-3 ${!!notation !== canReview ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                 <button
+                  onClick={exportCurrentRound}
+                  className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl transition-all text-sm flex items-center justify-center gap-2"
+                 >
+                   <Download className="w-4 h-4" /> Export Round
+                 </button>
+                 <button
+                  onClick={() => setReplay(exportRound(gameState))}
+                  className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl transition-all text-sm flex items-center justify-center gap-2"
+                 >
+                   <Play className="w-4 h-4" /> Watch Replay
+                 </button>
+                 {notation && (
+                   <button
+                    onClick={copyNotation}
+                    title="Copy the round as text, for chat or a bug report"
+                    className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl transition-all text-sm flex items-center justify-center gap-2"
+                   >
+                     <Copy className="w-4 h-4" /> Copy Notation
+                   </button>
+                 )}
+                 {canReview && (
+                   <button
+                    onClick={() => setShowReview(true)}
+                    className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl transition-all text-sm flex items-center justify-center gap-2"
+                   >
+                     <Search className="w-4 h-4" /> Review My Moves
+                   </button>
+                 )}
+               </div>
+
+               {onlineGame ? (
+                 <button
+                  onClick={() => online.send({ type: 'start' })}
+                  disabled={online.room?.hostSeat !== mySeat}
+                  className="mt-8 w-full py-4 bg-yellow-500 hover:bg-yellow-400 disabled:bg-stone-700 disabled:text-stone-400 text-stone-900 font-bold rounded-xl shadow-lg transition-all text-lg"
+                 >
+                   {online.room?.hostSeat !== mySeat ? 'Waiting for the host to deal...' : matchOver ? 'New Match' : 'Next Round'}
+                 </button>
+               ) : matchOver ? (
+                 <button 
+                  onClick={() => startMatch()}
+                  className="mt-8 w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl shadow-lg transition-all text-lg flex items-center justify-center gap-2"
+                 >
+                   <RotateCcw className="w-5 h-5" /> New Match
+                 </button>
+               ) : (
+                 <button 
+                  onClick={() => startGame()}
+                  className="mt-8 w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl shadow-lg transition-all text-lg"
+                 >
+                   Next Round
+                 </button>
+               )}
+               {gameState.seed !== null && !matchOver && !onlineGame && (
+                 <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm">
+                   <span className="text-stone-400 flex items-center gap-1"><RotateCcw className="w-4 h-4" /> Replay #{dealCode} as:</span>
+                   {seatLabels.map((label, seat) => (
+                     <button
+                      key={seat}
+                      onClick={() => startGame(gameState.seed!, seat, currentLeader === null ? null : (currentLeader - seat + playerCount) % playerCount)}
+                      className="px-3 py-1.5 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-lg transition-all"
+                     >
+                       {label}
+                     </button>
+                   ))}
+                 </div>
+               )}
             </div>
           </div>
         )}
 
+        {showRules && <RulesSettings rules={rules} onChange={setRules} onClose={() => setShowRules(false)} />}
+
+        {showHistory && (
+          <RoundHistory
+            history={history}
+            onWatch={record => { setReplay(record); setShowHistory(false); setSidebarOpen(false); }}
+            onDelete={index => setHistory(saveHistory(history.filter((_, i) => i !== index)))}
+            onClear={() => setHistory(saveHistory([]))}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showEditor && <ScenarioEditor onPlay={position => startPosition(position)} onClose={() => setShowEditor(false)} />}
+        {showNotation && <NotationImport onWatch={watchNotation} onClose={() => setShowNotation(false)} />}
+        {showReview && canReview && <RoundReview events={gameState.events} seat={mySeat} onClose={() => setShowReview(false)} />}
+        {showStats && <StatsDashboard rounds={stats} onReset={() => setStats(saveStats([]))} onClose={() => setShowStats(false)} />}
+
+        {/* Saved game found on load */}
+        {savedGame && !online.active && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-stone-800 p-6 rounded-2xl max-w-sm w-full border border-stone-600 shadow-2xl text-center">
+              {savedGame.save ? (
+                <>
+                  <h2 className="text-xl font-bold text-white mb-2">Resume your game?</h2>
+                  <p className="text-sm text-stone-400">
+                    {savedGame.save.game.status === 'round_over' ? 'Round' : 'In round'} {savedGame.save.match.rounds.length + (savedGame.save.game.status === 'playing' ? 1 : 0)}
+                    {' • '}Score {savedGame.save.match.scores.join(' – ')} (to {savedGame.save.match.targetScore})
+                  </p>
+                  {savedGame.save.savedAt && (
+                    <p className="text-xs text-stone-500 mt-1">Saved {new Date(savedGame.save.savedAt).toLocaleString()}</p>
+                  )}
+                  <div className="mt-6 grid grid-cols-2 gap-3">
+                    <button onClick={discardSavedGame} className="py-3 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl">
+                      New game
+                    </button>
+                    <button onClick={resumeSavedGame} className="py-3 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl flex items-center justify-center gap-2">
+                      <Play className="w-4 h-4" /> Resume
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-white mb-2">Couldn't restore your last game</h2>
+                  <p className="text-sm text-stone-400">{savedGame.error}</p>
+                  <button onClick={() => setSavedGame(null)} className="mt-6 w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl">
+                    New game
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {replay && <ReplayViewer record={replay} onClose={() => setReplay(null)} />}
+
+        {/* Screen-reader announcements; the key makes a repeated sentence read out again */}
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          <span key={announcement.id}>{announcement.text}</span>
+        </div>
+
+        {/* Tile following the pointer while it's dragged */}
+        {drag && (
+          <div className="fixed z-50 pointer-events-none -translate-x-1/2 -translate-y-1/2 opacity-90 rotate-6" style={{ left: drag.x, top: drag.y }}>
+            <DominoTile tile={drag.tile} size="md" highlight={drag.over !== null} decorative />
+          </div>
+        )}
+
       </div>
     </div>
   );
 }
 
+const DifficultyPicker = ({ value, onChange }: { value: BotDifficulty | null, onChange: (d: BotDifficulty) => void }) => (
+  <div className="flex gap-1">
+    {(Object.keys(DIFFICULTY_LABELS) as BotDifficulty[]).map(d => (
+      <button
+        key={d}
+        onClick={() => onChange(d)}
+        className={`px-3 py-1 rounded-lg text-xs font-bold ${value === d ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}
+      >
+        {DIFFICULTY_LABELS[d]}
+      </button>
+    ))}
+  </div>
+);
+
+const SpeedPicker = ({ value, onChange }: { value: GameSpeed, onChange: (s: GameSpeed) => void }) => (
+  <div className="flex gap-1">
+    {(Object.keys(SPEED_LABELS) as GameSpeed[]).map(s => (
+      <button
+        key={s}
+        onClick={() => onChange(s)}
+        aria-pressed={value === s}
+        className={`px-2 py-1 rounded-lg text-xs font-bold ${value === s ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}
+      >
+        {SPEED_LABELS[s]}
+      </button>
+    ))}
+  </div>
+);
+
+const TableOptionsPicker = ({ value, onChange }: { value: GameOptions, onChange: (o: GameOptions) => void }) => {
+  const choice = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-xs font-bold ${active ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 justify-center">
+        {([2, 3, 4] as const).map(n => (
+          <button key={n} onClick={() => onChange({ ...value, playerCount: n })} className={choice(value.playerCount === n)}>
+            {n} players
+          </button>
+        ))}
+      </div>
+      {value.playerCount === 4 && (
+        <div className="flex gap-1 justify-center">
+          <button onClick={() => onChange({ ...value, teams: true })} className={choice(value.teams)}>Teams</button>
+          <button onClick={() => onChange({ ...value, teams: false })} className={choice(!value.teams)}>Individual</button>
+        </div>
+      )}
+      <div className="flex gap-1 justify-center">
+        <button onClick={() => onChange({ ...value, drawMode: 'pass' })} className={choice(value.drawMode === 'pass')}>Pass when stuck</button>
+        <button onClick={() => onChange({ ...value, drawMode: 'draw' })} className={choice(value.drawMode === 'draw')}>Draw (robar)</button>
+      </div>
+    </div>
+  );
+};
+
 const PlayerArea = ({ player, isActive, vertical }: { player: Player | undefined, isActive: boolean, vertical?: boolean }) => {
   if (!player) return null;
   
   return (
-    <div className={`
+    <div
+      role="group"
+      aria-label={`${player.name}, ${player.hand.length} tiles${isActive ? ', playing now' : ''}`}
+      className={`
       flex flex-col items-center gap-1 transition-all duration-300
       ${isActive ? 'scale-110 z-20' : 'opacity-70'}
     `}>
@@ -9,6 +9,8 @@ interface DominoTileProps {
   disabled?: boolean;
   highlight?: boolean;
   selectable?: boolean;
+  label?: string; // Read out by screen readers; defaults to "3–7 domino"
+  decorative?: boolean; // Hidden from screen readers, for tiles inside a control that already names them
 }
 
 const getDotPosition = (n: number, index: number): string => {
@@ -68,7 +70,9 @@ export const DominoTile: React.FC<DominoTileProps> = ({
   onClick, 
   disabled,
   highlight,
-  selectable
+  selectable,
+  label,
+  decorative
 }) => {
   const [top, bottom] = tile;
   
@@ -86,6 +90,9 @@ export const DominoTile: React.FC<DominoTileProps> = ({
   return (
     <div 
       onClick={!disabled ? onClick : undefined}
+      role={decorative ? undefined : 'img'}
+      aria-label={decorative ? undefined : label ?? `${top}–${bottom} domino`}
+      aria-hidden={decorative || undefined}
       className={`
         ${dims} 
         bg-white rounded-md border-2 border-slate-300 shadow-sm
@@ -97,7 +104,7 @@ export const DominoTile: React.FC<DominoTileProps> = ({
       `}
     >
       {/* Top/Left Half */}
-      <div className="flex-1 w-full h-full">
+      <div className="flex-1 w-full h-full" aria-hidden="true">
         <Pips number={top} color={top === 0 ? 'bg-transparent' : getPipColor(top)} />
       </div>
 
@@ -105,7 +112,7 @@ export const DominoTile: React.FC<DominoTileProps> = ({
       <div className={`${orientation === 'vertical' ? 'h-[1px] w-full' : 'w-[1px] h-full'} bg-slate-300`} />
 
       {/* Bottom/Right Half */}
-      <div className="flex-1 w-full h-full">
+      <div className="flex-1 w-full h-full" aria-hidden="true">
          <Pips number={bottom} color={bottom === 0 ? 'bg-transparent' : getPipColor(bottom)} />
       </div>
     </div>
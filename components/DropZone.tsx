@@ -0,0 +1,29 @@
+import React from 'react';
+import { Side } from '../types';
+import { TileOrientation } from '../utils/boardLayout';
+
+interface DropZoneProps {
+  side: Side;
+  end: number | null; // Number showing at this end; null before the salida
+  orientation?: TileOrientation; // Matches the tile that would go here
+  accepts: boolean; // The tile being placed fits here
+  hovered: boolean; // A dragged tile is over it right now
+  onSelect: () => void; // Tap to play the selected tile here
+}
+
+// Target at one end of the chain while a tile is being placed. useTileDrag finds it by data-drop-side.
+export const DropZone: React.FC<DropZoneProps> = ({ side, end, orientation = 'vertical', accepts, hovered, onSelect }) => (
+  <button
+    data-drop-side={accepts ? side : undefined}
+    onClick={accepts ? onSelect : undefined}
+    disabled={!accepts}
+    title={end === null ? 'Lead here' : `Play on the ${side} (${end})`}
+    className={`
+      flex-shrink-0 ${orientation === 'vertical' ? 'w-12 h-24 flex-col' : 'w-24 h-12'} rounded-md border-2 border-dashed flex items-center justify-center gap-1 font-mono text-xs transition-all
+      ${!accepts ? 'border-stone-500/30 text-stone-500/40' : hovered ? 'border-green-300 bg-green-400/30 text-white scale-110' : 'border-yellow-300 bg-yellow-400/10 text-yellow-200 animate-pulse'}
+    `}
+  >
+    <span className="uppercase text-[10px]">{end === null ? 'Lead' : side}</span>
+    {end !== null && <span className="text-lg font-bold">{end}</span>}
+  </button>
+);
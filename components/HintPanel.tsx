@@ -0,0 +1,57 @@
+import React from 'react';
+import { Lightbulb, X } from 'lucide-react';
+import { MoveAnalysis, Move } from '../types';
+import { DominoTile } from './DominoTile';
+
+interface HintPanelProps {
+  analyses: MoveAnalysis[];
+  onPlay: (move: Move) => void;
+  onClose: () => void;
+}
+
+// Ranked list of the user's legal moves with the score breakdown behind each one
+export const HintPanel: React.FC<HintPanelProps> = ({ analyses, onPlay, onClose }) => {
+  const best = analyses[0]?.score;
+
+  return (
+    <div className="w-full max-w-3xl bg-stone-900/95 border border-yellow-500/40 rounded-xl p-3 mb-2 shadow-2xl">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-yellow-400 font-bold text-sm flex items-center gap-2"><Lightbulb className="w-4 h-4" /> Suggested moves</h3>
+        <button onClick={onClose} className="p-1 text-stone-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      {analyses.length === 0 && <div className="text-stone-400 italic text-sm">No legal moves - you have to pass.</div>}
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {analyses.map((a, i) => (
+          <div
+            key={`${a.move.tile[0]}-${a.move.tile[1]}-${a.move.side}`}
+            className={`flex items-center gap-3 p-2 rounded-lg ${a.score === best ? 'bg-yellow-500/10' : 'bg-stone-800'}`}
+          >
+            <span className="text-stone-500 font-mono text-xs w-4">{i + 1}</span>
+            <DominoTile tile={a.move.tile} size="sm" orientation="horizontal" />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-stone-300 font-mono">
+                {a.move.side} → ends {a.resultingEnds[0]} | {a.resultingEnds[1]}
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {a.factors.map(f => (
+                  <span key={f.key} className="text-[10px] px-1.5 py-0.5 rounded bg-stone-700 text-stone-300">
+                    {f.label} <span className={f.points >= 0 ? 'text-green-400' : 'text-red-400'}>{f.points >= 0 ? '+' : ''}{f.points}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+            <span className="font-bold font-mono text-yellow-300 w-8 text-right">{a.score}</span>
+            <button
+              onClick={() => onPlay(a.move)}
+              className="px-2 py-1 bg-yellow-500 hover:bg-yellow-400 text-stone-900 text-xs font-bold rounded"
+            >
+              Play
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { FileText, Play, X } from 'lucide-react';
+import { GameEvent } from '../types';
+import { parseNotation } from '../utils/notation';
+
+interface NotationImportProps {
+  onWatch: (events: GameEvent[]) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `[Table "4 teams pass"]
+[Rules "classic"]
+[Hand0 "..."]
+...
+
+1. 9-8L 2. pass 3. 8-4R`;
+
+// Paste a round written in notation (from chat, a bug report...) and open it in the replay viewer
+export const NotationImport: React.FC<NotationImportProps> = ({ onWatch, onClose }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const watch = () => {
+    try {
+      onWatch(parseNotation(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that notation.');
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-2xl w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><FileText className="w-5 h-5" /> Paste notation</h2>
+          <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        <textarea
+          value={text}
+          onChange={e => { setText(e.target.value); setError(null); }}
+          placeholder={PLACEHOLDER}
+          spellCheck={false}
+          aria-label="Round notation"
+          className="w-full h-64 p-3 bg-stone-900 border border-stone-700 rounded-lg font-mono text-xs text-stone-200 placeholder-stone-600 focus:outline-none focus:border-yellow-500"
+        />
+        {error && <p role="alert" className="text-xs text-red-400 mt-2 font-mono">{error}</p>}
+
+        <button
+          onClick={watch}
+          disabled={!text.trim()}
+          className="mt-4 w-full py-2 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-40 text-stone-900 font-bold rounded-xl flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4" /> Watch Replay
+        </button>
+      </div>
+    </div>
+  );
+};
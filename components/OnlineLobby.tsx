@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Globe, X, Bot, Crown, WifiOff, Copy } from 'lucide-react';
+import { GameOptions, RuleSet } from '../types';
+import { OnlineRoom } from '../utils/onlineClient';
+
+interface OnlineLobbyProps {
+  online: OnlineRoom;
+  options: GameOptions; // Table setup for a new room, from the start screen
+  rules: RuleSet;
+  targetScore: number;
+}
+
+const NAME_KEY = 'domino-online-name';
+
+// Create or join a room, then pick seats until the host deals
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ online, options, rules, targetScore }) => {
+  const { room, connected, error, send, leave } = online;
+  const [name, setName] = useState(() => localStorage.getItem(NAME_KEY) ?? '');
+  const [code, setCode] = useState('');
+
+  const rememberName = () => localStorage.setItem(NAME_KEY, name.trim());
+
+  const create = () => {
+    rememberName();
+    send({ type: 'create', name, options, rules, targetScore });
+  };
+
+  const join = () => {
+    rememberName();
+    send({ type: 'join', code: code.trim().toUpperCase(), name });
+  };
+
+  const teamLabel = (team: number) => (room?.options.teams ? `Team ${team === 0 ? 'A' : 'B'}` : '');
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-md w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Globe className="w-5 h-5" /> Play online</h2>
+          <button onClick={leave} title="Leave" className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        {!connected && <p className="text-xs text-stone-400 mb-3">Connecting... (start the server with <span className="font-mono">npm run server</span>)</p>}
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+        {!room && (
+          <div className="space-y-4">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Your name"
+              maxLength={20}
+              className="w-full px-3 py-2 rounded-lg bg-stone-900 text-stone-100 border border-stone-600"
+            />
+            <div>
+              <button
+                onClick={create}
+                disabled={!connected}
+                className="w-full py-2 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-stone-900 font-bold rounded-lg"
+              >
+                Create room
+              </button>
+              <p className="text-[11px] text-stone-500 mt-1 text-center">
+                {options.playerCount} players{options.playerCount === 4 ? (options.teams ? ', teams' : ', individual') : ''}
+                {options.drawMode === 'draw' ? ', draw from boneyard' : ''}, {rules.name} rules, to {targetScore}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                placeholder="Room code"
+                maxLength={4}
+                className="flex-1 px-3 py-2 rounded-lg bg-stone-900 font-mono uppercase text-center text-stone-100 border border-stone-600"
+              />
+              <button
+                onClick={join}
+                disabled={!connected || code.trim().length !== 4}
+                className="px-4 py-2 bg-stone-700 hover:bg-stone-600 disabled:opacity-50 text-stone-200 font-bold rounded-lg"
+              >
+                Join
+              </button>
+            </div>
+          </div>
+        )}
+
+        {room && (
+          <div className="space-y-3">
+            <button
+              onClick={() => navigator.clipboard?.writeText(room.code).catch(() => {})}
+              title="Copy room code"
+              className="w-full text-center py-2 bg-stone-900 rounded-lg"
+            >
+              <div className="text-[10px] uppercase text-stone-500 font-bold">Room code</div>
+              <div className="text-3xl font-mono font-bold text-yellow-400 tracking-widest flex items-center justify-center gap-2">
+                {room.code} <Copy className="w-4 h-4 opacity-60" />
+              </div>
+            </button>
+
+            <div className="space-y-1">
+              {room.seats.map((seat, i) => (
+                <div key={i} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${i === room.yourSeat ? 'bg-yellow-500/10 ring-1 ring-yellow-500/50' : 'bg-stone-700/50'}`}>
+                  <span className="text-stone-500 font-mono w-4">{i}</span>
+                  {seat.isBot && <Bot className="w-4 h-4 text-stone-400" />}
+                  {room.hostSeat === i && <Crown className="w-4 h-4 text-yellow-400" />}
+                  <span className="flex-1 text-stone-200 truncate">{seat.name}{i === room.yourSeat ? ' (you)' : ''}</span>
+                  {!seat.connected && <WifiOff className="w-4 h-4 text-red-400" />}
+                  <span className="text-[10px] uppercase text-stone-500">{teamLabel(seat.team)}</span>
+                  {seat.isBot && (
+                    <button onClick={() => send({ type: 'sit', seat: i })} className="px-2 py-0.5 bg-stone-600 hover:bg-stone-500 rounded text-xs text-stone-200">
+                      Sit here
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-[11px] text-stone-500">Open seats are played by bots. Share the code so others can join from their own tab or device.</p>
+
+            {room.hostSeat === room.yourSeat ? (
+              <button onClick={() => send({ type: 'start' })} className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl">
+                Deal
+              </button>
+            ) : (
+              <p className="text-center text-sm text-stone-400 italic">Waiting for the host to deal...</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
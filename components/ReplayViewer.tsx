@@ -0,0 +1,93 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, X } from 'lucide-react';
+import { RoundRecord, buildReplayStates } from '../utils/replay';
+import { getVisualChain, isDouble } from '../utils/gameLogic';
+import { DominoTile } from './DominoTile';
+
+interface ReplayViewerProps {
+  record: RoundRecord;
+  onClose: () => void;
+}
+
+// Step-through viewer for an exported round. Shows the board and all four hands face up.
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ record, onClose }) => {
+  // Records are validated before they get here, so this shouldn't throw
+  const states = useMemo(() => buildReplayStates(record.events), [record]);
+  const [step, setStep] = useState(0);
+
+  const last = states.length - 1;
+  const state = states[step];
+  const chain = getVisualChain(state.board, state.leftEnd);
+  const description = state.logs[state.logs.length - 1];
+  const lastEvent = record.events[step];
+  const activePlayer = lastEvent.type === 'play' || lastEvent.type === 'pass' ? lastEvent.player : null;
+
+  // Arrow keys step through the round
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStep(s => Math.min(last, s + 1));
+      if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [last, onClose]);
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col bg-stone-900/95 backdrop-blur-sm p-2 md:p-6 overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl md:text-2xl font-bold text-yellow-500">Replay</h2>
+        <button onClick={onClose} className="p-2 bg-stone-800 rounded-full text-stone-300"><X /></button>
+      </div>
+
+      <div className="font-mono text-sm text-stone-200 bg-stone-800 rounded-lg p-3 mb-4">
+        <span className="opacity-50 mr-2">[{step + 1}/{states.length}]</span>{description}
+      </div>
+
+      {/* Board */}
+      <div className="bg-emerald-900 rounded-2xl p-4 mb-4 overflow-x-auto">
+        <div className="flex items-center gap-0.5 min-w-min mx-auto w-fit">
+          {chain.map((tile, i) => (
+            <div key={i} className="flex-shrink-0">
+              <DominoTile tile={tile} size="sm" orientation={isDouble(tile) ? 'vertical' : 'horizontal'} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* All four hands, face up */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        {state.players.map(p => (
+          <div key={p.id} className={`rounded-lg p-3 ${activePlayer === p.id ? 'bg-yellow-500/10 ring-2 ring-yellow-500/50' : 'bg-stone-800'}`}>
+            <div className="text-xs font-bold uppercase mb-2 flex justify-between">
+              <span className={p.team === 0 ? 'text-green-400' : 'text-red-400'}>{record.players[p.id]?.name ?? p.name}</span>
+              <span className="text-stone-500 font-mono">{(state.passHistory[p.id] || []).length > 0 && `passed on ${[...new Set(state.passHistory[p.id])].join(', ')}`}</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {p.hand.map((tile, i) => <DominoTile key={i} tile={tile} size="sm" />)}
+              {p.hand.length === 0 && <span className="text-stone-500 italic text-sm">Empty</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-col gap-3 items-center mt-auto">
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={step}
+          onChange={e => setStep(Number(e.target.value))}
+          className="w-full max-w-xl accent-yellow-500"
+        />
+        <div className="flex gap-2">
+          <button onClick={() => setStep(0)} disabled={step === 0} className="p-3 bg-stone-700 rounded-lg disabled:opacity-30"><ChevronsLeft /></button>
+          <button onClick={() => setStep(s => Math.max(0, s - 1))} disabled={step === 0} className="p-3 bg-stone-700 rounded-lg disabled:opacity-30"><ChevronLeft /></button>
+          <button onClick={() => setStep(s => Math.min(last, s + 1))} disabled={step === last} className="p-3 bg-stone-700 rounded-lg disabled:opacity-30"><ChevronRight /></button>
+          <button onClick={() => setStep(last)} disabled={step === last} className="p-3 bg-stone-700 rounded-lg disabled:opacity-30"><ChevronsRight /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
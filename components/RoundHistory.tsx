@@ -0,0 +1,92 @@
+import React from 'react';
+import { History, X, Play, Download, Trash2 } from 'lucide-react';
+import { Player } from '../types';
+import { RoundRecord } from '../utils/replay';
+import { getTeamName } from '../utils/gameLogic';
+import { seedToDealCode } from '../utils/random';
+import { downloadFile } from '../utils/download';
+
+interface RoundHistoryProps {
+  history: RoundRecord[]; // Oldest first, as stored
+  onWatch: (record: RoundRecord) => void;
+  onDelete: (index: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const summarize = (record: RoundRecord) => {
+  const deal = record.events[0];
+  const end = record.events[record.events.length - 1];
+  const seed = deal.type === 'deal' ? deal.seed : null;
+  // Pass-and-play rounds have no single "You"
+  const humans = deal.type === 'deal' && deal.seats ? deal.seats.filter(s => !s.isBot).length : 1;
+  const players: Player[] = record.players.map(p => ({ ...p, hand: [], isBot: false }));
+  const winner = end.type !== 'round_end' ? '' : end.team === null ? 'Nobody (tie)' : getTeamName(players, end.team, humans > 1 ? null : 0);
+  return {
+    dealCode: seed !== null ? seedToDealCode(seed) : null,
+    winner,
+    reason: end.type === 'round_end' ? end.reason : '',
+    points: end.type === 'round_end' ? end.points : 0,
+    undos: end.type === 'round_end' ? end.undos ?? 0 : 0
+  };
+};
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+// Finished rounds saved on this device, newest first. Each one opens in the replay viewer.
+export const RoundHistory: React.FC<RoundHistoryProps> = ({ history, onWatch, onDelete, onClear, onClose }) => (
+  <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+    <div className="bg-stone-800 p-6 rounded-2xl max-w-lg w-full border border-stone-600 shadow-2xl my-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2"><History className="w-5 h-5" /> Round history</h2>
+        <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+      </div>
+
+      {history.length === 0 && <p className="text-sm text-stone-400 italic">Finished rounds will show up here.</p>}
+
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+        {history.map((record, index) => ({ record, index })).reverse().map(({ record, index }) => {
+          const round = summarize(record);
+          return (
+            <div key={index} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-stone-900/60 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="text-stone-200 font-bold truncate">
+                  {round.winner} <span className="text-yellow-400 font-mono">+{round.points}</span>
+                </div>
+                <div className="text-[11px] text-stone-500 font-mono truncate">
+                  <span className="capitalize">{round.reason}</span>
+                  {round.dealCode && ` • #${round.dealCode}`}
+                  {` • ${record.players.length}p`}
+                  {round.undos > 0 && ` • ${round.undos} take-back${round.undos === 1 ? '' : 's'}`}
+                  {formatDate(record.exportedAt) && ` • ${formatDate(record.exportedAt)}`}
+                </div>
+              </div>
+              <button onClick={() => onWatch(record)} title="Watch replay" className="p-1.5 bg-stone-700 hover:bg-stone-600 rounded text-stone-200">
+                <Play className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => downloadFile(`domino-round-${round.dealCode ?? index + 1}.json`, JSON.stringify(record, null, 2))}
+                title="Export round"
+                className="p-1.5 bg-stone-700 hover:bg-stone-600 rounded text-stone-200"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDelete(index)} title="Delete" className="p-1.5 bg-stone-700 hover:bg-red-900 rounded text-stone-400">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {history.length > 0 && (
+        <button onClick={onClear} className="mt-4 w-full py-2 bg-stone-700 hover:bg-stone-600 text-stone-300 text-sm font-bold rounded-lg">
+          Clear history
+        </button>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { GameEvent, Move } from '../types';
+import { MoveVerdict, RoundReview as Review, ReviewedMove, reviewRound } from '../utils/review';
+import { tileLabel } from '../utils/announce';
+import { DominoTile } from './DominoTile';
+
+interface RoundReviewProps {
+  events: GameEvent[];
+  seat: number; // Whose decisions get reviewed
+  onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<MoveVerdict, string> = {
+  good: 'bg-green-500/20 text-green-300',
+  inaccurate: 'bg-yellow-500/20 text-yellow-300',
+  blunder: 'bg-red-500/20 text-red-300'
+};
+
+const describeMove = (move: Move, ends: [number | null, number | null]) =>
+  ends[0] === null ? `lead ${tileLabel(move.tile)}` : `${tileLabel(move.tile)} on the ${move.side}`;
+
+const MoveRow: React.FC<{ move: ReviewedMove, turn: number }> = ({ move, turn }) => (
+  <div className="flex items-center gap-3 p-2 rounded-lg bg-stone-900">
+    <span className="text-stone-500 font-mono text-xs w-6">{turn}</span>
+    <DominoTile tile={move.played.tile} size="sm" orientation="horizontal" label={tileLabel(move.played.tile)} />
+    <div className="flex-1 min-w-0 text-xs">
+      <div className="text-stone-300 font-mono">
+        {describeMove(move.played, move.ends)}
+        {move.ends[0] !== null && <span className="text-stone-500"> (ends {move.ends[0]} | {move.ends[1]})</span>}
+      </div>
+      <div className="text-stone-500">
+        {move.options === 1 ? 'Only move' : move.cost > 0 ? `Better: ${describeMove(move.best, move.ends)}` : `Best of ${move.options} options`}
+      </div>
+    </div>
+    {move.cost > 0 && <span className="font-mono text-xs text-stone-400">−{move.cost.toFixed(1)} pts</span>}
+    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${VERDICT_STYLES[move.verdict]}`}>{move.verdict}</span>
+  </div>
+);
+
+// Goes back through the round and grades each tile the seat played against the search's pick
+export const RoundReview: React.FC<RoundReviewProps> = ({ events, seat, onClose }) => {
+  const [review, setReview] = useState<Review | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    reviewRound(events, seat, (done, total) => setProgress({ done, total }), controller.signal)
+      .then(result => { if (!controller.signal.aborted) setReview(result); })
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not review this round.'));
+    return () => controller.abort();
+  }, [events, seat]);
+
+  // Turn numbers count the seat's own plays
+  const turnOf = (move: ReviewedMove) => review!.moves.indexOf(move) + 1;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-2xl w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Search className="w-5 h-5" /> Move review</h2>
+          <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : !review ? (
+          <div role="status" className="text-sm text-stone-400">
+            Analysing move {Math.min(progress.done + 1, Math.max(progress.total, 1))}{progress.total ? ` of ${progress.total}` : ''}...
+            <div className="h-1 mt-2 bg-stone-900 rounded-full overflow-hidden">
+              <div className="h-full bg-yellow-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+            </div>
+          </div>
+        ) : review.moves.length === 0 ? (
+          <p className="text-sm text-stone-400 italic">You didn't play a tile this round, so there's nothing to review.</p>
+        ) : (
+          <>
+            <div className="space-y-1 max-h-[50vh] overflow-y-auto">
+              {review.moves.map(move => <MoveRow key={move.eventIndex} move={move} turn={turnOf(move)} />)}
+            </div>
+
+            <h3 className="text-stone-400 mt-6 mb-2 text-xs font-bold uppercase tracking-wider">Summary</h3>
+            <p className="text-sm text-stone-300">
+              {review.counts.good} good, {review.counts.inaccurate} inaccurate, {review.counts.blunder} blunder{review.counts.blunder === 1 ? '' : 's'}.
+              {review.totalCost > 0 && ` About ${review.totalCost.toFixed(1)} points given away in all.`}
+            </p>
+            {review.costliest.length > 0 ? (
+              <div className="space-y-1 mt-2">
+                <div className="text-xs text-stone-500">Costliest decisions</div>
+                {review.costliest.map(move => <MoveRow key={move.eventIndex} move={move} turn={turnOf(move)} />)}
+              </div>
+            ) : (
+              <p className="text-sm text-green-400 mt-2">Every play matched the engine's choice.</p>
+            )}
+            <p className="text-[11px] text-stone-500 mt-4">
+              Costs are estimated round points, from sampled deals that fit what you knew at the time.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Settings, X, Check } from 'lucide-react';
+import { RuleSet } from '../types';
+import { RULE_PRESETS, describeRules } from '../utils/rules';
+
+interface RulesSettingsProps {
+  rules: RuleSet;
+  onChange: (rules: RuleSet) => void;
+  onClose: () => void;
+}
+
+type OptionRow<K extends keyof RuleSet> = { key: K; label: string; options: { value: RuleSet[K]; label: string }[] };
+
+const OPTION_ROWS: [OptionRow<'scoring'>, OptionRow<'tranque'>, OptionRow<'tranqueTie'>, OptionRow<'roundToTens'>, OptionRow<'salida'>] = [
+  { key: 'scoring', label: 'Points counted', options: [{ value: 'losers', label: 'Losing team' }, { value: 'all_hands', label: 'All four hands' }] },
+  { key: 'tranque', label: 'Tranque winner', options: [{ value: 'lowest_individual', label: 'Lowest hand' }, { value: 'team_total', label: 'Lowest team total' }] },
+  { key: 'tranqueTie', label: 'Tied tranque', options: [{ value: 'no_points', label: 'No points' }, { value: 'locker_team', label: 'Team that locked it' }] },
+  { key: 'roundToTens', label: 'Round to 10s', options: [{ value: false, label: 'No' }, { value: true, label: 'Yes' }] },
+  { key: 'salida', label: 'Later leads', options: [{ value: 'winner', label: 'Winner' }, { value: 'rotation', label: 'Next seat' }] },
+];
+
+// House-rules picker: choose a preset, or tweak individual rules into a custom set.
+// Changes apply from the next deal.
+export const RulesSettings: React.FC<RulesSettingsProps> = ({ rules, onChange, onClose }) => {
+  const setOption = <K extends keyof RuleSet>(key: K, value: RuleSet[K]) => {
+    const next = { ...rules, [key]: value };
+    // Snap back to a preset name if the tweak happens to match one
+    const preset = RULE_PRESETS.find(p => OPTION_ROWS.every(row => p[row.key] === next[row.key]));
+    onChange(preset ?? { ...next, id: 'custom', name: 'Custom' });
+  };
+
+  // Generic per row, so each button's value is checked against its own rule
+  const renderRow = <K extends keyof RuleSet>(row: OptionRow<K>) => (
+    <div key={row.key} className="flex justify-between items-center gap-2">
+      <span className="text-sm text-stone-300">{row.label}</span>
+      <div className="flex gap-1">
+        {row.options.map(opt => (
+          <button
+            key={String(opt.value)}
+            onClick={() => setOption(row.key, opt.value)}
+            className={`px-2 py-1 rounded text-xs font-bold ${rules[row.key] === opt.value ? 'bg-sky-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-lg w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Settings className="w-5 h-5" /> House Rules</h2>
+          <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {RULE_PRESETS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => onChange(p)}
+              className={`py-2 rounded-lg font-bold text-sm ${rules.id === p.id ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3 mb-4">
+          {OPTION_ROWS.map(row => renderRow(row))}
+        </div>
+
+        <ul className="text-xs text-stone-400 space-y-1 bg-stone-900/50 rounded-lg p-3 mb-4">
+          {describeRules(rules).map(line => (
+            <li key={line} className="flex gap-2"><Check className="w-3 h-3 text-green-500 shrink-0 mt-0.5" />{line}</li>
+          ))}
+        </ul>
+
+        <p className="text-[11px] text-stone-500">Playing: <span className="text-stone-300 font-bold">{rules.name}</span>. Changes apply from the next deal.</p>
+      </div>
+    </div>
+  );
+};
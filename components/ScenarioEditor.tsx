@@ -0,0 +1,294 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PencilRuler, X, Play, Download, FolderOpen, Cpu } from 'lucide-react';
+import { Move, Position, Tile } from '../types';
+import { DominoTile } from './DominoTile';
+import { createPlayers, initialGameState, normalizeOptions, reduce } from '../utils/engine';
+import { areTilesEqual, generateDeck } from '../utils/gameLogic';
+import { createPuzzle, emptyPosition, getPuzzleChoices, isSamePlay, parsePuzzle, puzzleFileName, validatePosition, validatePuzzle } from '../utils/scenario';
+import { evaluateMovesAsync } from '../utils/search';
+import { REVIEW_SETTINGS } from '../utils/review';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { tileLabel } from '../utils/announce';
+
+interface ScenarioEditorProps {
+  onPlay: (position: Position) => void;
+  onClose: () => void;
+}
+
+// Where clicked tiles go: the end of the chain, a seat's hand, or back to the boneyard
+type Target = 'board' | 'boneyard' | number;
+
+const DECK = generateDeck();
+const NUMBERS = Array.from({ length: 10 }, (_, n) => n);
+
+const without = (tiles: Tile[], tile: Tile) => tiles.filter(t => !areTilesEqual(t, tile));
+
+const choice = (active: boolean) =>
+  `px-2 py-1 rounded-lg text-xs font-bold ${active ? 'bg-yellow-500 text-stone-900' : 'bg-stone-700 text-stone-300 hover:bg-stone-600'}`;
+
+const EndPicker = ({ label, value, onChange }: { label: string, value: number | null, onChange: (end: number | null) => void }) => (
+  <label className="flex items-center gap-2 text-xs text-stone-300">
+    {label}
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      className="bg-stone-900 border border-stone-600 rounded px-1 py-0.5 text-stone-100 font-mono"
+    >
+      <option value="">–</option>
+      {NUMBERS.map(n => <option key={n} value={n}>{n}</option>)}
+    </select>
+  </label>
+);
+
+// Sets up a table by hand, checks it can really happen, then plays it out or saves it as a puzzle file
+export const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ onPlay, onClose }) => {
+  const [position, setPosition] = useState<Position>(emptyPosition);
+  const [target, setTarget] = useState<Target>(0);
+  const [title, setTitle] = useState('');
+  const [solution, setSolution] = useState<Move[]>([]);
+  const [thinking, setThinking] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const players = createPlayers([], position.options);
+  const errors = useMemo(() => validatePosition(position), [position]);
+  const choices = errors.length === 0 && position.currentPlayer === 0 ? getPuzzleChoices(position) : [];
+  const puzzle = createPuzzle(title, position, solution);
+  const puzzleErrors = solution.length > 0 ? validatePuzzle(puzzle) : ['Mark the best play before saving.'];
+
+  // Any change to the table can make the marked answer meaningless, so it starts over
+  const update = (next: Position) => {
+    setPosition(next);
+    setSolution([]);
+  };
+
+  const locate = (tile: Tile): Target => {
+    if (position.board.some(t => areTilesEqual(t, tile))) return 'board';
+    const seat = position.hands.findIndex(h => h.some(t => areTilesEqual(t, tile)));
+    return seat === -1 ? 'boneyard' : seat;
+  };
+
+  // Click once to put a tile where the target says, again to send it back to the boneyard
+  const moveTile = (tile: Tile) => {
+    const to = locate(tile) === target ? 'boneyard' : target;
+    const board = without(position.board, tile);
+    const hands = position.hands.map(h => without(h, tile));
+    const boneyard = without(position.boneyard, tile);
+    if (to === 'board') board.push(tile);
+    else if (to === 'boneyard') boneyard.push(tile);
+    else hands[to].push(tile);
+    // A first tile down fixes the ends; after that they are the editor's call
+    const ends = board.length === 0 ? { leftEnd: null, rightEnd: null }
+      : position.board.length === 0 ? { leftEnd: board[0][0], rightEnd: board[0][1] }
+      : {};
+    update({ ...position, board, hands, boneyard, ...ends });
+  };
+
+  const setPlayerCount = (playerCount: 2 | 3 | 4) => {
+    const options = normalizeOptions({ ...position.options, playerCount, teams: playerCount === 4 });
+    const hands = Array.from({ length: playerCount }, (_, seat) => position.hands[seat] ?? []);
+    const passHistory = Object.fromEntries(Object.entries(position.passHistory).filter(([seat]) => Number(seat) < playerCount));
+    update({
+      ...position,
+      options,
+      hands,
+      boneyard: [...position.boneyard, ...position.hands.slice(playerCount).flat()],
+      passHistory,
+      currentPlayer: Math.min(position.currentPlayer, playerCount - 1)
+    });
+    if (typeof target === 'number' && target >= playerCount) setTarget(0);
+  };
+
+  const toggleKnock = (seat: number, n: number) => {
+    const knocked = position.passHistory[seat] ?? [];
+    update({ ...position, passHistory: { ...position.passHistory, [seat]: knocked.includes(n) ? knocked.filter(k => k !== n) : [...knocked, n].sort() } });
+  };
+
+  const toggleAnswer = (move: Move) => {
+    const marked = solution.some(m => isSamePlay(m, move, position.leftEnd, position.rightEnd));
+    setSolution(marked ? solution.filter(m => !isSamePlay(m, move, position.leftEnd, position.rightEnd)) : [...solution, move]);
+  };
+
+  // Marks whatever the search likes best from your seat, knowing only your hand
+  const askEngine = async () => {
+    setThinking(true);
+    const state = reduce(initialGameState, { type: 'setup', position });
+    const [best] = await evaluateMovesAsync(state, 0, REVIEW_SETTINGS);
+    setThinking(false);
+    if (best) setSolution([best.move]);
+  };
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parsePuzzle(await readFileAsText(file));
+      setPosition(loaded.position);
+      setTitle(loaded.title);
+      setSolution(loaded.solution);
+      setFileError(null);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read that file.');
+    }
+  };
+
+  const targetName = (t: Target) => (t === 'board' ? 'Board' : t === 'boneyard' ? 'Boneyard' : players[t].name);
+  const targets: Target[] = ['board', ...players.map(p => p.id), 'boneyard'];
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-4xl w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><PencilRuler className="w-5 h-5" /> Position editor</h2>
+          <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-center text-xs text-stone-300">
+          <div className="flex gap-1">
+            {([2, 3, 4] as const).map(n => (
+              <button key={n} onClick={() => setPlayerCount(n)} className={choice(position.options.playerCount === n)}>{n} players</button>
+            ))}
+          </div>
+          {position.options.playerCount === 4 && (
+            <div className="flex gap-1">
+              <button onClick={() => update({ ...position, options: { ...position.options, teams: true } })} className={choice(position.options.teams)}>Teams</button>
+              <button onClick={() => update({ ...position, options: { ...position.options, teams: false } })} className={choice(!position.options.teams)}>Individual</button>
+            </div>
+          )}
+          <div className="flex gap-1">
+            <button onClick={() => update({ ...position, options: { ...position.options, drawMode: 'pass' } })} className={choice(position.options.drawMode === 'pass')}>Knock</button>
+            <button onClick={() => update({ ...position, options: { ...position.options, drawMode: 'draw' } })} className={choice(position.options.drawMode === 'draw')}>Draw</button>
+          </div>
+          <label className="flex items-center gap-2">
+            To play
+            <select
+              value={position.currentPlayer}
+              onChange={e => update({ ...position, currentPlayer: Number(e.target.value) })}
+              className="bg-stone-900 border border-stone-600 rounded px-1 py-0.5 text-stone-100"
+            >
+              {players.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <h3 className="text-stone-400 mt-4 mb-2 text-xs font-bold uppercase tracking-wider">Tiles</h3>
+        <div className="flex flex-wrap gap-1 mb-2 items-center text-xs text-stone-400">
+          Clicking a tile puts it in:
+          {targets.map(t => (
+            <button key={String(t)} onClick={() => setTarget(t)} className={choice(target === t)}>{targetName(t)}</button>
+          ))}
+        </div>
+        <div className="grid grid-cols-11 gap-1 bg-stone-900 rounded-lg p-2">
+          {DECK.map(tile => {
+            const at = locate(tile);
+            return (
+              <button
+                key={tileLabel(tile)}
+                onClick={() => moveTile(tile)}
+                title={`${tileLabel(tile)}: ${targetName(at)}`}
+                aria-label={`${tileLabel(tile)}: ${targetName(at)}`}
+                className={`relative flex justify-center rounded p-0.5 ${at === 'boneyard' ? 'opacity-40 hover:opacity-80' : at === target ? 'ring-2 ring-yellow-400' : 'ring-1 ring-stone-500'}`}
+              >
+                <DominoTile tile={tile} size="sm" orientation="horizontal" decorative />
+                {at !== 'boneyard' && (
+                  <span className="absolute -top-1 -right-1 px-1 rounded bg-stone-700 text-[9px] font-bold text-yellow-300">
+                    {at === 'board' ? 'B' : at + 1}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <h3 className="text-stone-400 mt-4 mb-2 text-xs font-bold uppercase tracking-wider">Board, left to right</h3>
+        <div className="flex flex-wrap gap-1 items-center min-h-[2.5rem] bg-emerald-900/60 rounded-lg p-2">
+          {position.board.length === 0 && <span className="text-xs text-emerald-200/50 italic">Empty: {players[position.currentPlayer]?.name} leads.</span>}
+          {position.board.map(tile => <DominoTile key={tileLabel(tile)} tile={tile} size="sm" orientation="horizontal" />)}
+        </div>
+        <div className="flex gap-4 mt-2">
+          <EndPicker label="Left end" value={position.leftEnd} onChange={leftEnd => update({ ...position, leftEnd })} />
+          <EndPicker label="Right end" value={position.rightEnd} onChange={rightEnd => update({ ...position, rightEnd })} />
+        </div>
+
+        <h3 className="text-stone-400 mt-4 mb-2 text-xs font-bold uppercase tracking-wider">Knocked on</h3>
+        <div className="space-y-1">
+          {players.map(p => (
+            <div key={p.id} className="flex items-center gap-2 text-xs text-stone-300">
+              <span className="w-32 truncate">{p.name} <span className="text-stone-500">({position.hands[p.id]?.length ?? 0})</span></span>
+              <div className="flex gap-0.5">
+                {NUMBERS.map(n => (
+                  <button
+                    key={n}
+                    onClick={() => toggleKnock(p.id, n)}
+                    aria-pressed={(position.passHistory[p.id] ?? []).includes(n)}
+                    className={`w-6 h-6 rounded font-mono ${(position.passHistory[p.id] ?? []).includes(n) ? 'bg-red-500/70 text-white' : 'bg-stone-700 text-stone-400 hover:bg-stone-600'}`}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 ? (
+          <ul role="alert" className="mt-4 space-y-1 text-xs text-red-400 list-disc list-inside">
+            {errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        ) : (
+          <p className="mt-4 text-xs text-green-400">This position can be played.</p>
+        )}
+
+        <h3 className="text-stone-400 mt-4 mb-2 text-xs font-bold uppercase tracking-wider">Puzzle</h3>
+        <input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder="Title, e.g. Block the fives"
+          className="w-full px-3 py-2 rounded-lg bg-stone-900 border border-stone-600 text-sm text-stone-100"
+        />
+        {choices.length > 0 ? (
+          <div className="flex flex-wrap gap-1 mt-2 items-center">
+            <span className="text-xs text-stone-400">Best play:</span>
+            {choices.map(move => (
+              <button key={`${tileLabel(move.tile)}-${move.side}`} onClick={() => toggleAnswer(move)} className={choice(solution.some(m => isSamePlay(m, move, position.leftEnd, position.rightEnd)))}>
+                {position.leftEnd === null ? `Lead ${tileLabel(move.tile)}` : `${tileLabel(move.tile)} ${move.side}`}
+              </button>
+            ))}
+            <button onClick={askEngine} disabled={thinking} className="px-2 py-1 rounded-lg text-xs text-stone-300 hover:text-white flex items-center gap-1 disabled:opacity-50">
+              <Cpu className="w-3 h-3" /> {thinking ? 'Thinking...' : 'Ask the engine'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-stone-500 mt-2">Make it a valid position with you to play to mark the answer.</p>
+        )}
+        {solution.length > 0 && puzzleErrors.length > 0 && <p className="text-xs text-red-400 mt-1">{puzzleErrors[0]}</p>}
+
+        {fileError && <p className="text-xs text-red-400 mt-4">{fileError}</p>}
+        <div className="mt-6 grid grid-cols-3 gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl text-sm flex items-center justify-center gap-2"
+          >
+            <FolderOpen className="w-4 h-4" /> Open
+          </button>
+          <button
+            onClick={() => downloadFile(puzzleFileName(puzzle), JSON.stringify(puzzle, null, 2))}
+            disabled={puzzleErrors.length > 0}
+            className="py-2 bg-stone-700 hover:bg-stone-600 text-stone-200 font-bold rounded-xl text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> Save Puzzle
+          </button>
+          <button
+            onClick={() => onPlay(position)}
+            disabled={errors.length > 0}
+            className="py-2 bg-yellow-500 hover:bg-yellow-400 text-stone-900 font-bold rounded-xl text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" /> Play It Out
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={openFile} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { MatchState } from '../types';
+
+interface ScoreBoardProps {
+  match: MatchState;
+  teamNames: string[]; // One per entry in match.scores
+  shortNames: string[]; // Column headers for the round history
+  userTeam: number;
+}
+
+const teamColor = (team: number, userTeam: number) => (team === userTeam ? 'text-green-400' : 'text-red-400');
+const barColor = (team: number, userTeam: number) => (team === userTeam ? 'bg-green-500' : 'bg-red-500');
+
+// Running match totals plus a per-round history. Two teams, or one column per player in individual play.
+export const ScoreBoard: React.FC<ScoreBoardProps> = ({ match, teamNames, shortNames, userTeam }) => (
+  <div className="space-y-3">
+    <div className="flex justify-between items-center bg-stone-700 rounded-lg p-3 gap-2">
+      {match.scores.map((score, team) => (
+        <React.Fragment key={team}>
+          {team > 0 && match.scores.length === 2 && (
+            <div className="text-center text-stone-500">
+              <div>vs</div>
+              <div className="text-[10px] uppercase">to {match.targetScore}</div>
+            </div>
+          )}
+          <div className="text-center min-w-0">
+            <div className="text-xs text-stone-400 uppercase font-bold truncate">{teamNames[team]}</div>
+            <div className={`text-2xl font-bold ${teamColor(team, userTeam)}`}>{score}</div>
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+    {match.scores.length > 2 && <div className="text-[10px] uppercase text-center text-stone-500 -mt-2">to {match.targetScore}</div>}
+
+    {/* Progress towards the target */}
+    <div className="space-y-1">
+      {match.scores.map((score, team) => (
+        <div key={team} className="h-1.5 bg-stone-900 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor(team, userTeam)} transition-all`} style={{ width: `${Math.min(100, (score / match.targetScore) * 100)}%` }} />
+        </div>
+      ))}
+    </div>
+
+    {match.rounds.length > 0 && (
+      <div className="max-h-32 overflow-y-auto text-xs font-mono bg-stone-900/50 rounded-lg">
+        <table className="w-full">
+          <thead className="text-stone-500">
+            <tr>
+              <th className="text-left px-2 py-1">#</th>
+              {shortNames.map(name => <th key={name} className="text-right px-2 py-1">{name}</th>)}
+              <th className="text-right px-2 py-1">How</th>
+            </tr>
+          </thead>
+          <tbody>
+            {match.rounds.map(r => (
+              <tr key={r.round} className="border-t border-stone-700/50 text-stone-300">
+                <td className="px-2 py-1" title={r.undos > 0 ? `${r.undos} take-back(s) used` : undefined}>
+                  {r.round}{r.undos > 0 && <span className="text-yellow-500">*</span>}
+                </td>
+                {match.scores.map((_, team) => (
+                  <td key={team} className={`text-right px-2 py-1 ${teamColor(team, userTeam)}`}>{r.team === team ? `+${r.points}` : '-'}</td>
+                ))}
+                <td className="text-right px-2 py-1 capitalize">{r.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {match.rounds.some(r => r.undos > 0) && (
+          <div className="px-2 py-1 text-stone-500 border-t border-stone-700/50"><span className="text-yellow-500">*</span> take-backs used</div>
+        )}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { BarChart3, X, TrendingUp, TrendingDown } from 'lucide-react';
+import { RoundStat, summarizeStats, weeklyTrends } from '../utils/stats';
+
+interface StatsDashboardProps {
+  rounds: RoundStat[];
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const TREND_WEEKS = 12;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatCard = ({ label, value, detail }: { label: string, value: string, detail?: string }) => (
+  <div className="bg-stone-900 p-3 rounded-lg">
+    <div className="text-[10px] text-stone-400 uppercase font-bold">{label}</div>
+    <div className="text-xl text-white font-bold">{value}</div>
+    {detail && <div className="text-[11px] text-stone-500">{detail}</div>}
+  </div>
+);
+
+// Results from every finished round on this device, plus how the win rate moved week to week
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ rounds, onReset, onClose }) => {
+  const summary = useMemo(() => summarizeStats(rounds), [rounds]);
+  const weeks = useMemo(() => weeklyTrends(rounds).slice(-TREND_WEEKS), [rounds]);
+
+  const latest = weeks[weeks.length - 1];
+  const previous = weeks[weeks.length - 2];
+  const change = latest && previous ? latest.winRate - previous.winRate : null;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm overflow-y-auto">
+      <div className="bg-stone-800 p-6 rounded-2xl max-w-2xl w-full border border-stone-600 shadow-2xl my-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><BarChart3 className="w-5 h-5" /> Your stats</h2>
+          <button onClick={onClose} className="p-2 bg-stone-700 rounded-full text-stone-300"><X className="w-4 h-4" /></button>
+        </div>
+
+        {summary.rounds === 0 ? (
+          <p className="text-sm text-stone-400 italic">Finish a round against the bots and your stats start here.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <StatCard label="Rounds won" value={`${summary.roundsWon}/${summary.rounds}`} detail={`${percent(summary.roundsWon / summary.rounds)}${summary.ties ? `, ${summary.ties} tied` : ''}`} />
+              <StatCard label="Matches won" value={`${summary.matchesWon}/${summary.matches}`} detail={summary.matches ? percent(summary.matchesWon / summary.matches) : 'None finished'} />
+              <StatCard label="Domino / Tranque" value={`${summary.dominoWins} / ${summary.tranqueWins}`} detail="Rounds won each way" />
+              <StatCard label="Avg points" value={`${summary.avgPointsFor.toFixed(1)} – ${summary.avgPointsAgainst.toFixed(1)}`} detail="For – against, per round" />
+              <StatCard label="Passes" value={percent(summary.passRate)} detail="Of your turns" />
+              <StatCard
+                label="Had the salida"
+                value={percent(summary.leadRate)}
+                detail={summary.leadWinRate !== null ? `Won ${percent(summary.leadWinRate)} of those` : undefined}
+              />
+              <StatCard
+                label="Strongest suit"
+                value={summary.strongestSuit ? `${summary.strongestSuit.suit}s` : '–'}
+                detail={summary.strongestSuit ? `Won ${percent(summary.strongestSuit.wins / summary.strongestSuit.rounds)} leaning on it` : 'Needs more rounds'}
+              />
+              <StatCard
+                label="Weakest suit"
+                value={summary.weakestSuit ? `${summary.weakestSuit.suit}s` : '–'}
+                detail={summary.weakestSuit ? `Won ${percent(summary.weakestSuit.wins / summary.weakestSuit.rounds)} leaning on it` : 'Needs more rounds'}
+              />
+            </div>
+
+            <h3 className="text-stone-400 mt-6 mb-2 text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+              Win rate by week
+              {change !== null && change !== 0 && (
+                <span className={`flex items-center gap-1 normal-case ${change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {change > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                  {change > 0 ? '+' : ''}{Math.round(change * 100)} pts vs last week
+                </span>
+              )}
+            </h3>
+            <div className="flex items-end gap-1 h-32 bg-stone-900 rounded-lg p-2">
+              {weeks.map(week => (
+                <div
+                  key={week.weekStart}
+                  className="flex-1 flex flex-col items-center justify-end h-full min-w-0"
+                  title={`Week of ${week.weekStart}: ${week.rounds} rounds, ${percent(week.winRate)} won, ` +
+                    `${week.avgPointsFor.toFixed(1)} – ${week.avgPointsAgainst.toFixed(1)} avg points, ${percent(week.passRate)} passes`}
+                >
+                  <div className="text-[9px] text-stone-400 font-mono">{percent(week.winRate)}</div>
+                  <div className="w-full bg-yellow-500/80 rounded-t" style={{ height: `${Math.max(2, week.winRate * 100)}%` }} />
+                  <div className="text-[9px] text-stone-500 font-mono truncate w-full text-center">{week.weekStart.slice(5)}</div>
+                </div>
+              ))}
+            </div>
+
+            <h3 className="text-stone-400 mt-6 mb-2 text-xs font-bold uppercase tracking-wider">Tiles played by suit</h3>
+            <div className="grid grid-cols-10 gap-1 text-center font-mono">
+              {summary.suits.map(s => (
+                <div key={s.suit} className="bg-stone-900 rounded p-1" title={`${s.rounds} rounds as your main suit, ${s.wins} won`}>
+                  <div className="text-yellow-400 font-bold text-sm">{s.suit}</div>
+                  <div className="text-[10px] text-stone-400">{s.played}</div>
+                </div>
+              ))}
+            </div>
+
+            <button onClick={onReset} className="mt-6 w-full py-2 bg-stone-700 hover:bg-stone-600 text-stone-300 text-sm font-bold rounded-lg">
+              Reset stats
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
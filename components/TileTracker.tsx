@@ -0,0 +1,82 @@
+import React from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import { Player } from '../types';
+import { InferenceState, getPossibleHolders, getSuitSummaries, tileIndex, BONEYARD } from '../utils/inference';
+
+interface TileTrackerProps {
+  inference: InferenceState;
+  players: Player[];
+  onClose: () => void;
+}
+
+const holderShort = (id: number, players: Player[]) =>
+  id === BONEYARD ? 'B' : (players[id]?.name.split(' ')[2]?.[1] || players[id]?.name[0] || '?');
+
+const holderColor = (id: number, players: Player[]) =>
+  id === BONEYARD ? 'bg-stone-500' : players[id]?.team === 0 ? 'bg-green-500' : 'bg-red-500';
+
+// "Who can hold what" grid: every tile of the double-nine set, marked as played, yours,
+// or hidden with the seats that could still have it
+export const TileTracker: React.FC<TileTrackerProps> = ({ inference, players, onClose }) => {
+  const suits = getSuitSummaries(inference);
+
+  return (
+    <div className="w-full max-w-3xl bg-stone-900/95 border border-sky-500/40 rounded-xl p-3 mb-2 shadow-2xl">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sky-400 font-bold text-sm flex items-center gap-2"><Grid3x3 className="w-4 h-4" /> Tile counting</h3>
+        <button onClick={onClose} className="p-1 text-stone-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 max-h-64 overflow-y-auto">
+        {/* Triangle of all 55 tiles, row = low number, column = high number */}
+        <table className="text-[10px] font-mono border-separate border-spacing-0.5">
+          <tbody>
+            {Array.from({ length: 10 }, (_, a) => (
+              <tr key={a}>
+                {Array.from({ length: 10 }, (_, b) => {
+                  if (b < a) return <td key={b} />;
+                  const holders = getPossibleHolders(inference, [a, b]);
+                  const state = holders.length > 0 ? 'hidden' : inference.own[tileIndex([a, b])] ? 'own' : 'played';
+                  return (
+                    <td
+                      key={b}
+                      title={`${a}-${b}: ${state === 'hidden' ? `could be ${holders.map(h => holderShort(h, players)).join(', ')}` : state}`}
+                      className={`w-7 h-7 text-center align-middle rounded ${state === 'played' ? 'bg-stone-800 text-stone-600 line-through' : state === 'own' ? 'bg-yellow-500/30 text-yellow-200' : 'bg-stone-700 text-stone-200'}`}
+                    >
+                      <div>{a}{b}</div>
+                      {state === 'hidden' && (
+                        <div className="flex justify-center gap-[1px]">
+                          {holders.map(h => <span key={h} className={`w-1 h-1 rounded-full ${holderColor(h, players)} ${holders.length === 1 ? 'ring-1 ring-white' : ''}`} />)}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Per-number summary */}
+        <div className="flex-1 text-xs space-y-1">
+          {suits.map(s => (
+            <div key={s.suit} className={`flex items-center gap-2 px-2 py-0.5 rounded ${s.exhausted ? 'bg-sky-500/10 text-sky-300' : 'text-stone-300'}`}>
+              <span className="font-bold w-3">{s.suit}</span>
+              <span className="font-mono text-stone-400">{s.played} out · {s.own} mine · {s.unseen} hidden</span>
+              {s.exhausted && <span className="ml-auto font-bold uppercase text-[10px]">Dead</span>}
+            </div>
+          ))}
+          <div className="pt-1 text-stone-400">
+            {inference.holders.filter(h => h !== BONEYARD).map(h => (
+              <div key={h}>
+                <span className={`inline-block w-2 h-2 rounded-full mr-1 ${holderColor(h, players)}`} />
+                {players[h]?.name}: {inference.counts[h]} tiles{inference.voids[h]?.length ? `, out of ${[...inference.voids[h]].sort().join(', ')}` : ''}
+              </div>
+            ))}
+            <div><span className={`inline-block w-2 h-2 rounded-full mr-1 ${holderColor(BONEYARD, players)}`} />Boneyard: {inference.counts[BONEYARD]} tiles</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { writeFileSync } from 'fs';
+import { BotDifficulty, GameOptions, HeuristicWeights } from '../types';
+import { DEFAULT_WEIGHTS } from '../utils/gameLogic';
+import { getRulePreset } from '../utils/rules';
+import { Entrant, TournamentConfig, DEFAULT_TOURNAMENT, runTournament, formatSummary, roundsToCsv } from '../utils/tournament';
+
+// Bot-vs-bot tournament from the command line, e.g.
+//   npm run tournament -- --a easy --b easy:block=15,double=5 --games 2000 --json out.json --csv out.csv
+
+const USAGE = `Usage: npm run tournament -- [options]
+
+  --a <bot>          Bot A (default: easy)
+  --b <bot>          Bot B (default: easy)
+                     <bot> is easy|normal|hard, optionally with heuristic weights:
+                     easy:block=15,double=5  (keys: ${Object.keys(DEFAULT_WEIGHTS).join(', ')})
+  --games <n>        Deals to play, or matches with --matches (default: ${DEFAULT_TOURNAMENT.games}).
+                     Each one is played once per side with the seats swapped.
+  --matches          Play full matches instead of single rounds
+  --target <n>       Match target score (default: ${DEFAULT_TOURNAMENT.targetScore})
+  --rules <id>       House rules preset: classic, all_hands, team_tranque (default: classic)
+  --players <n>      2, 3 or 4 (default: 4)
+  --individual       No teams (4 players only)
+  --draw             Draw from the boneyard instead of passing
+  --seed <n>         Seed for the deals (default: ${DEFAULT_TOURNAMENT.seed})
+  --json <file>      Write the summary and every round as JSON
+  --csv <file>       Write one line per round as CSV
+`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard'];
+
+const parseEntrant = (spec: string): Entrant => {
+  const [difficulty, overrides = ''] = spec.split(':');
+  if (!DIFFICULTIES.includes(difficulty as BotDifficulty)) fail(`Unknown bot "${difficulty}".`);
+
+  const weights: HeuristicWeights = { ...DEFAULT_WEIGHTS };
+  overrides.split(',').filter(Boolean).forEach(pair => {
+    const [key, value] = pair.split('=');
+    if (!(key in DEFAULT_WEIGHTS)) fail(`Unknown weight "${key}".`);
+    if (value === undefined || Number.isNaN(Number(value))) fail(`Weight "${key}" needs a number.`);
+    weights[key as keyof HeuristicWeights] = Number(value);
+  });
+  return { name: spec, difficulty: difficulty as BotDifficulty, weights };
+};
+
+const parseArgs = (argv: string[]): { config: TournamentConfig; json?: string; csv?: string } => {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) fail(`Unexpected argument "${arg}".`);
+    const name = arg.slice(2);
+    if (['matches', 'individual', 'draw', 'help'].includes(name)) flags.set(name, 'true');
+    else if (i + 1 < argv.length) flags.set(name, argv[++i]);
+    else fail(`--${name} needs a value.`);
+  }
+  if (flags.has('help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const int = (name: string, fallback: number) => {
+    const raw = flags.get(name);
+    if (raw === undefined) return fallback;
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a whole number.`);
+    return n;
+  };
+
+  const rules = getRulePreset(flags.get('rules') ?? DEFAULT_TOURNAMENT.rules.id) ?? fail(`Unknown rules "${flags.get('rules')}".`);
+  const playerCount = int('players', 4);
+  if (playerCount !== 2 && playerCount !== 3 && playerCount !== 4) fail('--players must be 2, 3 or 4.');
+  const options: GameOptions = {
+    playerCount: playerCount as GameOptions['playerCount'],
+    teams: !flags.has('individual'),
+    drawMode: flags.has('draw') ? 'draw' : 'pass'
+  };
+
+  return {
+    config: {
+      a: parseEntrant(flags.get('a') ?? 'easy'),
+      b: parseEntrant(flags.get('b') ?? 'easy'),
+      games: int('games', DEFAULT_TOURNAMENT.games),
+      mode: flags.has('matches') ? 'matches' : 'rounds',
+      seed: int('seed', DEFAULT_TOURNAMENT.seed),
+      rules,
+      options,
+      targetScore: int('target', DEFAULT_TOURNAMENT.targetScore)
+    },
+    json: flags.get('json'),
+    csv: flags.get('csv')
+  };
+};
+
+const { config, json, csv } = parseArgs(process.argv.slice(2));
+
+let lastPercent = -1;
+const started = Date.now();
+const result = runTournament(config, (done, total) => {
+  const percent = Math.floor((done / total) * 100);
+  if (percent !== lastPercent && percent % 10 === 0) {
+    lastPercent = percent;
+    process.stderr.write(`  ${percent}% (${done}/${total})\n`);
+  }
+});
+
+console.log(formatSummary(result));
+console.log(`\nFinished in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+if (json) {
+  writeFileSync(json, JSON.stringify(result, null, 2));
+  console.log(`Wrote ${json}`);
+}
+if (csv) {
+  writeFileSync(csv, roundsToCsv(result.rounds));
+  console.log(`Wrote ${csv}`);
+}
@@ -0,0 +1,115 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { ClientMessage, GameOptions, RuleSet } from '../types';
+import { getRulePreset, DEFAULT_RULES } from '../utils/rules';
+import { DEFAULT_OPTIONS } from '../utils/engine';
+import { TARGET_SCORE_OPTIONS, DEFAULT_TARGET_SCORE } from '../utils/match';
+import { isRecord, isTile, oneOf } from '../utils/guards';
+import { RoomError, createRoom, joinRoom, rejoinRoom, changeSeat, startRound, playMove, leaveRoom, disconnect } from './rooms';
+
+// Local multiplayer server: `npm run server`, then open the app in a few tabs and use "Play online".
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const readOptions = (value: unknown): GameOptions => {
+  const data = isRecord(value) ? value : {};
+  return {
+    playerCount: oneOf(data.playerCount, [2, 3, 4] as const) ? data.playerCount : DEFAULT_OPTIONS.playerCount,
+    teams: typeof data.teams === 'boolean' ? data.teams : DEFAULT_OPTIONS.teams,
+    drawMode: data.drawMode === 'draw' ? 'draw' : 'pass'
+  };
+};
+
+// Custom rule sets are accepted as long as every field is one the engine knows
+const readRules = (value: unknown): RuleSet => {
+  if (!isRecord(value)) return DEFAULT_RULES;
+  const preset = typeof value.id === 'string' ? getRulePreset(value.id) : undefined;
+  if (preset) return preset;
+  const { scoring, tranque, tranqueTie, roundToTens, salida } = value;
+  const valid = oneOf(scoring, ['losers', 'all_hands'] as const) &&
+    oneOf(tranque, ['lowest_individual', 'team_total'] as const) &&
+    oneOf(tranqueTie, ['no_points', 'locker_team'] as const) &&
+    typeof roundToTens === 'boolean' &&
+    oneOf(salida, ['winner', 'rotation'] as const);
+  return valid ? { id: 'custom', name: 'Custom', scoring, tranque, tranqueTie, roundToTens, salida } : DEFAULT_RULES;
+};
+
+const parseMessage = (raw: string): ClientMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'create':
+      return {
+        type: 'create',
+        name: String(data.name ?? ''),
+        options: readOptions(data.options),
+        rules: readRules(data.rules),
+        targetScore: oneOf(data.targetScore, TARGET_SCORE_OPTIONS) ? data.targetScore : DEFAULT_TARGET_SCORE
+      };
+    case 'join':
+      return typeof data.code === 'string' ? { type: 'join', code: data.code, name: String(data.name ?? '') } : null;
+    case 'rejoin':
+      return typeof data.code === 'string' && typeof data.token === 'string' ? { type: 'rejoin', code: data.code, token: data.token } : null;
+    case 'sit':
+      return typeof data.seat === 'number' && Number.isInteger(data.seat) ? { type: 'sit', seat: data.seat } : null;
+    case 'play':
+      return isTile(data.tile) && (data.side === 'left' || data.side === 'right') ? { type: 'play', tile: data.tile, side: data.side } : null;
+    case 'start':
+      return { type: 'start' };
+    case 'leave':
+      return { type: 'leave' };
+    default:
+      return null;
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket: WebSocket) => {
+  let session: { code: string; token: string } | null = null;
+
+  const fail = (message: string) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'error', message }));
+  };
+
+  socket.on('message', raw => {
+    const message = parseMessage(raw.toString());
+    if (!message) return fail('Bad message.');
+
+    try {
+      if (message.type === 'create') {
+        session = createRoom(socket, message.name, message.options, message.rules, message.targetScore);
+      } else if (message.type === 'join') {
+        session = joinRoom(socket, message.code, message.name);
+      } else if (message.type === 'rejoin') {
+        session = rejoinRoom(socket, message.code, message.token);
+      } else if (!session) {
+        fail('Join a room first.');
+      } else if (message.type === 'sit') {
+        changeSeat(session.code, session.token, message.seat);
+      } else if (message.type === 'start') {
+        startRound(session.code, session.token);
+      } else if (message.type === 'play') {
+        playMove(session.code, session.token, message.tile, message.side);
+      } else if (message.type === 'leave') {
+        leaveRoom(session.code, session.token);
+        session = null;
+      }
+    } catch (err) {
+      if (err instanceof RoomError) return fail(err.message);
+      // Anything else is our bug; it costs this client the move, not every room on the server
+      console.error('Error handling message:', err);
+      fail('Something went wrong on the server.');
+    }
+  });
+
+  socket.on('close', () => {
+    if (session) disconnect(session.code, session.token, socket);
+  });
+});
+
+console.log(`Domino server listening on ws://localhost:${PORT}`);
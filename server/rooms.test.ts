@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { RoomView, ServerMessage } from '../types';
+import { DEFAULT_OPTIONS } from '../utils/engine';
+import { getValidMoves } from '../utils/gameLogic';
+import { DEFAULT_RULES } from '../utils/rules';
+import { getStrategy, registerStrategy, DEFAULT_STRATEGY_ID } from '../utils/strategies';
+import { createRoom, joinRoom, startRound, playMove, leaveRoom, disconnect } from './rooms';
+
+// A client connection that just records what the server sends it
+const connect = () => {
+  const messages: ServerMessage[] = [];
+  const socket = { readyState: WebSocket.OPEN, send: (data: string) => messages.push(JSON.parse(data)) } as unknown as WebSocket;
+  const view = (): RoomView => {
+    const last = [...messages].reverse().find(m => m.type === 'room');
+    if (last?.type !== 'room') throw new Error('no room message yet');
+    return last.room;
+  };
+  return { socket, messages, view };
+};
+
+const BOT_TURN_MS = 2000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // The quick heuristic stands in for the search so the bots move instantly
+  registerStrategy({ ...getStrategy('easy'), id: DEFAULT_STRATEGY_ID });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('what a seat sees', () => {
+  it('keeps the seed, and so the deal, hidden until the round is over', async () => {
+    const host = connect();
+    const { code, token } = createRoom(host.socket, 'Ana', DEFAULT_OPTIONS, DEFAULT_RULES, 100);
+    startRound(code, token);
+
+    for (let turn = 0; turn < 200 && host.view().game?.status === 'playing'; turn++) {
+      const game = host.view().game!;
+      expect(game.seed).toBeNull();
+      const deal = game.events[0];
+      expect(deal.type === 'deal' && deal.seed).toBeNull();
+      expect(game.players.filter(p => p.id !== 0).every(p => p.hand.every(([a]) => a === -1))).toBe(true);
+
+      const [move] = game.currentPlayerIndex === 0 ? getValidMoves(game.players[0].hand, game.leftEnd, game.rightEnd) : [];
+      if (move) playMove(code, token, move.tile, move.side);
+      else await vi.advanceTimersByTimeAsync(BOT_TURN_MS);
+    }
+
+    const finished = host.view().game!;
+    expect(finished.status).toBe('round_over');
+    expect(finished.seed).not.toBeNull();
+    expect(finished.events[0].type === 'deal' && finished.events[0].seed).toBe(finished.seed);
+  });
+});
+
+describe('bots', () => {
+  it('still move when their strategy fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerStrategy({ ...getStrategy('easy'), id: DEFAULT_STRATEGY_ID, chooseMove: () => Promise.reject(new Error('broken')) });
+    const host = connect();
+    const { code, token } = createRoom(host.socket, 'Ana', DEFAULT_OPTIONS, DEFAULT_RULES, 100);
+    leaveRoom(code, token); // Bots in every seat
+    const watcher = connect();
+    const joined = joinRoom(watcher.socket, code, 'Ben');
+    startRound(code, joined.token);
+    disconnect(code, joined.token, watcher.socket); // ...and a bot covers Ben too
+
+    const before = watcher.view().game!.events.length;
+    await vi.advanceTimersByTimeAsync(BOT_TURN_MS * 3);
+    const rejoined = connect();
+    expect(() => joinRoom(rejoined.socket, code, 'Cy')).not.toThrow();
+    expect(rejoined.view().game!.events.length).toBeGreaterThan(before);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe('host', () => {
+  it('goes to the next player to join an empty room', () => {
+    const host = connect();
+    const { code, token } = createRoom(host.socket, 'Ana', DEFAULT_OPTIONS, DEFAULT_RULES, 100);
+    leaveRoom(code, token);
+
+    const next = connect();
+    const joined = joinRoom(next.socket, code, 'Ben');
+    expect(next.view().hostSeat).toBe(next.view().yourSeat);
+    expect(() => startRound(code, joined.token)).not.toThrow();
+  });
+
+  it('passes to a connected player when the host drops', () => {
+    const host = connect();
+    const { code, token } = createRoom(host.socket, 'Ana', DEFAULT_OPTIONS, DEFAULT_RULES, 100);
+    const guest = connect();
+    const joined = joinRoom(guest.socket, code, 'Ben');
+
+    disconnect(code, token, host.socket);
+    expect(guest.view().hostSeat).toBe(guest.view().yourSeat);
+    expect(() => startRound(code, joined.token)).not.toThrow();
+
+    // With everyone gone the role waits for whoever turns up
+    disconnect(code, joined.token, guest.socket);
+    const late = connect();
+    joinRoom(late.socket, code, 'Cy');
+    expect(late.view().hostSeat).toBe(late.view().yourSeat);
+  });
+});
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { GameAction, GameOptions, GameState, MatchState, RoomView, RuleSet, ServerMessage, Side, Tile } from '../types';
+import { reduce, initialGameState, getRoundEndAction, getStuckAction, normalizeOptions, getTeamCount } from '../utils/engine';
+import { dealFromSeed, getValidMoves } from '../utils/gameLogic';
+import { createMatch, recordRound, isMatchOver } from '../utils/match';
+import { randomSeed } from '../utils/random';
+import { getStrategy, getSeatView, viewToState, fallbackMove, DEFAULT_STRATEGY_ID } from '../utils/strategies';
+
+// Rooms for online play. Each room holds the one real GameState; every change goes through
+// the engine's reducer, so an illegal move from a client is simply rejected.
+
+const BOT_DELAY_MS = 1200;
+const STUCK_DELAY_MS = 1500; // A human with nothing to play draws or passes automatically
+const EMPTY_ROOM_TTL_MS = 10 * 60 * 1000;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I mix-ups
+const MAX_NAME_LENGTH = 20;
+
+interface Seat {
+  token: string | null; // null: a bot plays this seat
+  name: string;
+  socket: WebSocket | null; // null while the player is disconnected
+}
+
+interface Room {
+  code: string;
+  options: GameOptions;
+  rules: RuleSet;
+  seats: Seat[];
+  hostToken: string;
+  game: GameState;
+  match: MatchState;
+  pending: { timer: ReturnType<typeof setTimeout>; abort: AbortController } | null;
+  expiry: ReturnType<typeof setTimeout> | null;
+}
+
+const rooms = new Map<string, Room>();
+
+export class RoomError extends Error {}
+
+const newCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from({ length: 4 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const cleanName = (name: string) => name.trim().slice(0, MAX_NAME_LENGTH) || 'Player';
+
+const botName = (seat: number) => `Bot ${seat}`;
+
+const getRoom = (code: string): Room => {
+  const room = rooms.get(code.trim().toUpperCase());
+  if (!room) throw new RoomError(`No room with code ${code.toUpperCase()}.`);
+  return room;
+};
+
+const seatOf = (room: Room, token: string): number => {
+  const seat = room.seats.findIndex(s => s.token === token);
+  if (seat === -1) throw new RoomError('You are not seated in this room.');
+  return seat;
+};
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// What one seat is allowed to see: their own hand and the public record while the round is on,
+// everything once it's over. The seed stays hidden until then too, since it would give away the deal.
+const gameFor = (game: GameState, seat: number): GameState => {
+  if (game.status !== 'playing') return game;
+  return {
+    ...viewToState(getSeatView(game, seat)),
+    currentPlayerIndex: game.currentPlayerIndex,
+    logs: game.logs,
+    undoCount: game.undoCount
+  };
+};
+
+const viewFor = (room: Room, seat: number): RoomView => {
+  const host = room.seats.findIndex(s => s.token === room.hostToken);
+  return {
+    code: room.code,
+    seats: room.seats.map((s, i) => ({
+      name: s.token ? s.name : botName(i),
+      isBot: s.token === null,
+      connected: s.token === null || s.socket !== null,
+      team: room.options.teams ? i % 2 : i
+    })),
+    hostSeat: host === -1 ? null : host,
+    yourSeat: seat,
+    options: room.options,
+    rules: room.rules,
+    game: room.game.status === 'idle' ? null : gameFor(room.game, seat),
+    match: room.match
+  };
+};
+
+const broadcast = (room: Room) => {
+  room.seats.forEach((s, i) => send(s.socket, { type: 'room', room: viewFor(room, i) }));
+};
+
+const cancelPending = (room: Room) => {
+  if (!room.pending) return;
+  clearTimeout(room.pending.timer);
+  room.pending.abort.abort();
+  room.pending = null;
+};
+
+const apply = (room: Room, action: GameAction): boolean => {
+  const next = reduce(room.game, action);
+  if (next === room.game) return false;
+  room.game = next;
+  advance(room);
+  broadcast(room);
+  return true;
+};
+
+// Moves the round along after every change: ends it, or lines up the next bot move.
+// Disconnected players are covered by a bot so the table never stalls.
+const advance = (room: Room) => {
+  cancelPending(room);
+  const game = room.game;
+  if (game.status !== 'playing') return;
+
+  const roundEnd = getRoundEndAction(game);
+  if (roundEnd) {
+    room.game = reduce(game, roundEnd);
+    room.match = recordRound(room.match, room.game);
+    return;
+  }
+
+  const seat = game.currentPlayerIndex;
+  const player = game.players[seat];
+  const abort = new AbortController();
+
+  if (room.seats[seat].socket) {
+    if (game.board.length > 0 && getValidMoves(player.hand, game.leftEnd, game.rightEnd).length === 0) {
+      room.pending = { timer: setTimeout(() => apply(room, getStuckAction(room.game, seat)), STUCK_DELAY_MS), abort };
+    }
+    return;
+  }
+
+  // A strategy that fails still has to move, or the room would wait on it forever
+  const thinking = getStrategy(DEFAULT_STRATEGY_ID).chooseMove(getSeatView(game, seat), abort.signal).catch(err => {
+    if (!abort.signal.aborted) console.error(`Bot move failed in room ${room.code}:`, err);
+    return fallbackMove(getSeatView(game, seat));
+  });
+  const timer = setTimeout(() => {
+    thinking.then(move => {
+      if (abort.signal.aborted || room.game !== game) return;
+      apply(room, move ? { type: 'play', playerId: seat, tile: move.tile, side: move.side } : getStuckAction(game, seat));
+    });
+  }, BOT_DELAY_MS);
+  room.pending = { timer, abort };
+};
+
+// Someone who is here has to be able to deal. The host keeps the role while away only if nobody else is connected.
+const ensureHost = (room: Room) => {
+  const host = room.seats.find(s => s.token !== null && s.token === room.hostToken);
+  if (host?.socket) return;
+  room.hostToken = room.seats.find(s => s.token && s.socket)?.token ?? host?.token ?? '';
+};
+
+const scheduleExpiry = (room: Room) => {
+  if (room.expiry) clearTimeout(room.expiry);
+  room.expiry = null;
+  if (room.seats.some(s => s.socket)) return;
+  room.expiry = setTimeout(() => {
+    cancelPending(room);
+    rooms.delete(room.code);
+  }, EMPTY_ROOM_TTL_MS);
+};
+
+export const createRoom = (socket: WebSocket, name: string, options: GameOptions, rules: RuleSet, targetScore: number) => {
+  const token = randomUUID();
+  const tableOptions = normalizeOptions(options);
+  const room: Room = {
+    code: newCode(),
+    options: tableOptions,
+    rules,
+    seats: Array.from({ length: tableOptions.playerCount }, (_, i) => (
+      i === 0 ? { token, name: cleanName(name), socket } : { token: null, name: '', socket: null }
+    )),
+    hostToken: token,
+    game: initialGameState,
+    match: createMatch(targetScore, getTeamCount(tableOptions)),
+    pending: null,
+    expiry: null
+  };
+  rooms.set(room.code, room);
+  send(socket, { type: 'welcome', code: room.code, token });
+  broadcast(room);
+  return { code: room.code, token };
+};
+
+// Takes the first seat a bot is keeping warm
+export const joinRoom = (socket: WebSocket, code: string, name: string) => {
+  const room = getRoom(code);
+  const seat = room.seats.findIndex(s => s.token === null);
+  if (seat === -1) throw new RoomError('That room is full.');
+
+  const token = randomUUID();
+  room.seats[seat] = { token, name: cleanName(name), socket };
+  ensureHost(room);
+  scheduleExpiry(room);
+  send(socket, { type: 'welcome', code: room.code, token });
+  advance(room); // If the bot was about to move for this seat, it's theirs now
+  broadcast(room);
+  return { code: room.code, token };
+};
+
+export const rejoinRoom = (socket: WebSocket, code: string, token: string) => {
+  const room = getRoom(code);
+  const seat = seatOf(room, token);
+  send(room.seats[seat].socket, { type: 'error', message: 'You joined from somewhere else.' });
+  room.seats[seat].socket = socket;
+  ensureHost(room);
+  scheduleExpiry(room);
+  send(socket, { type: 'welcome', code: room.code, token });
+  advance(room);
+  broadcast(room);
+  return { code: room.code, token };
+};
+
+// Seat (and so team) changes only between rounds
+export const changeSeat = (code: string, token: string, target: number) => {
+  const room = getRoom(code);
+  const seat = seatOf(room, token);
+  if (room.game.status === 'playing') throw new RoomError("You can't change seats during a round.");
+  if (!Number.isInteger(target) || target < 0 || target >= room.seats.length) throw new RoomError('No such seat.');
+  if (room.seats[target].token !== null) throw new RoomError('That seat is taken.');
+
+  room.seats[target] = room.seats[seat];
+  room.seats[seat] = { token: null, name: '', socket: null };
+  broadcast(room);
+};
+
+export const startRound = (code: string, token: string) => {
+  const room = getRoom(code);
+  if (token !== room.hostToken) throw new RoomError('Only the host can deal.');
+  if (room.game.status === 'playing') throw new RoomError('The round is still going.');
+
+  const newMatch = room.game.status === 'idle' || isMatchOver(room.match);
+  if (newMatch) room.match = createMatch(room.match.targetScore, getTeamCount(room.options));
+  const seed = randomSeed();
+  apply(room, {
+    type: 'deal',
+    deck: dealFromSeed(seed),
+    seed,
+    rules: room.rules,
+    options: room.options,
+    leader: newMatch ? undefined : room.match.nextLeader ?? undefined,
+    seats: room.seats.map((s, i) => ({ name: s.token ? s.name : botName(i), isBot: s.token === null }))
+  });
+};
+
+export const playMove = (code: string, token: string, tile: Tile, side: Side) => {
+  const room = getRoom(code);
+  const seat = seatOf(room, token);
+  if (!apply(room, { type: 'play', playerId: seat, tile, side })) throw new RoomError("That move isn't legal right now.");
+};
+
+// Gives the seat back to a bot for good
+export const leaveRoom = (code: string, token: string) => {
+  const room = getRoom(code);
+  const seat = seatOf(room, token);
+  room.seats[seat] = { token: null, name: '', socket: null };
+  ensureHost(room);
+  scheduleExpiry(room);
+  advance(room);
+  broadcast(room);
+};
+
+// The seat stays reserved for a reconnect; its bot covers any turns in the meantime
+export const disconnect = (code: string, token: string, socket: WebSocket) => {
+  const room = rooms.get(code);
+  const seat = room?.seats.find(s => s.token === token);
+  if (!room || !seat || seat.socket !== socket) return;
+  seat.socket = null;
+  ensureHost(room);
+  scheduleExpiry(room);
+  advance(room);
+  broadcast(room);
+};
@@ -5,7 +5,14 @@ export interface Player {
   name: string;
   isBot: boolean;
   hand: Tile[];
-  team: number; // 0 for User/Partner, 1 for Opponents
+  team: number; // 0 for User/Partner, 1 for Opponents. In individual play every player is their own team (= id)
+}
+
+// Table setup, fixed for a whole match
+export interface GameOptions {
+  playerCount: 2 | 3 | 4;
+  teams: boolean; // Partners sit across; only possible with 4 players
+  drawMode: 'pass' | 'draw'; // Knock when stuck, or draw from the boneyard until you can play (robar)
 }
 
 export interface GameState {
@@ -14,18 +21,193 @@ export interface GameState {
   boneyard: Tile[];
   leftEnd: number | null;
   rightEnd: number | null;
-  currentPlayerIndex: number; // 0=User, 1=Bot1, 2=Bot2, 3=Bot3
+  currentPlayerIndex: number; // 0=User, 1=Bot1, 2=Bot2, 3=Bot3 (fewer with 2 or 3 players)
   status: 'idle' | 'playing' | 'round_over';
   logs: string[];
+  events: GameEvent[]; // Machine-readable history of the round, in order
   winner: {
-    team: number | null; // 0 or 1, or null for draw (unlikely)
-    reason: 'domino' | 'tranque' | null;
+    team: number | null; // Winning team, or null for a tied tranque
+    reason: RoundEndReason | null;
     points: number;
   } | null;
   passHistory: { [playerId: number]: number[] }; // Track which numbers players passed on
+  seed: number | null; // Seed the deck was shuffled with, if known (see utils/random.ts)
+  undoCount: number; // Take-backs used this round (practice mode)
+  rules: RuleSet; // House rules this round is played under
+  options: GameOptions;
 }
 
 export interface Move {
   tile: Tile;
-  side: 'left' | 'right';
-}
\ No newline at end of file
+  side: Side;
+}
+
+export type Side = 'left' | 'right';
+
+export type RoundEndReason = 'domino' | 'tranque';
+
+// A table set up by hand (see utils/scenario.ts) rather than dealt: a round can start from here
+export interface Position {
+  board: Tile[]; // Chain order, left to right
+  leftEnd: number | null; // Both null on an empty board, where the player to move leads
+  rightEnd: number | null;
+  hands: Tile[][]; // By seat
+  boneyard: Tile[];
+  passHistory: { [playerId: number]: number[] }; // Numbers each player has already knocked on
+  currentPlayer: number;
+  options: GameOptions;
+}
+
+// Structured record of everything that happened in a round. `logs` is the human-readable twin.
+export type GameEvent =
+  // hands as dealt, before the lead. `tile` is the forced highest-double opening, or null when the starter chooses (salida)
+  | { type: 'deal'; seed: number | null; hands: Tile[][]; boneyard: Tile[]; starter: number; tile: Tile | null; rules?: RuleSet; options?: GameOptions; seats?: SeatSetup[] }
+  | { type: 'setup'; position: Position; rules?: RuleSet } // Takes the place of the deal when a round starts from a set-up position
+  | { type: 'play'; player: number; tile: Tile; side: Side }
+  | { type: 'draw'; player: number; tile: Tile | null } // Only the drawing player may look at `tile`; null in other seats' views
+  | { type: 'pass'; player: number; ends: [number, number] } // open ends the player could not match
+  | { type: 'round_end'; reason: RoundEndReason; team: number | null; points: number; undos?: number };
+
+// Actions understood by the engine reducer (utils/engine.ts)
+export type GameAction =
+  // deck must already be shuffled; the reducer stays pure. Rules carry over if omitted.
+  // Without a leader the highest double opens automatically; with one, that seat leads any tile.
+  | { type: 'deal'; deck: Tile[]; seed?: number; rules?: RuleSet; leader?: number; options?: GameOptions; seats?: SeatSetup[] }
+  | { type: 'setup'; position: Position; rules?: RuleSet } // Start from a position checked by validatePosition
+  | { type: 'play'; playerId: number; tile: Tile; side: Side }
+  | { type: 'draw'; playerId: number } // Takes the top boneyard tile
+  | { type: 'pass'; playerId: number }
+  | { type: 'end_round'; reason: RoundEndReason; team: number | null } // null: tied tranque, nobody scores
+  | { type: 'undo'; snapshot: GameState } // Roll back to an earlier state of the same round
+  | { type: 'resume'; snapshot: GameState }; // Pick a saved game back up, from a fresh table only
+
+// One finished deal inside a match
+export interface RoundResult {
+  round: number; // 1-based
+  team: number | null;
+  reason: RoundEndReason | null;
+  points: number;
+  undos: number; // Take-backs used, so practice rounds are marked as such
+}
+
+export interface MatchState {
+  targetScore: number; // Usually 100 or 200
+  scores: number[]; // Running total per team (team id = index)
+  rounds: RoundResult[];
+  winner: number | null; // Team that reached the target, null while the match is on
+  nextLeader: number | null; // Seat with the salida next round; null means the highest double opens
+}
+
+// One reason a move scored the way it did (shown in the hint panel)
+export interface MoveFactor {
+  key: string;
+  label: string;
+  points: number;
+}
+
+export interface MoveAnalysis {
+  move: Move;
+  score: number;
+  factors: MoveFactor[];
+  resultingEnds: [number, number]; // Open ends after the move, [left, right]
+}
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+// How long the table waits between automatic moves in local games
+export type GameSpeed = 'instant' | 'fast' | 'normal' | 'slow';
+
+// Who sits where, when it isn't the default "You plus bots" table
+export interface SeatSetup {
+  name: string;
+  isBot: boolean;
+}
+
+// Everything a bot may see from its own seat (built by getSeatView in utils/strategies.ts).
+// Other hands are only counts, and the deal event only shows this seat's hand.
+export interface SeatView {
+  seat: number;
+  hand: readonly Tile[];
+  board: readonly Tile[];
+  leftEnd: number | null;
+  rightEnd: number | null;
+  passHistory: Readonly<Record<number, readonly number[]>>;
+  handCounts: readonly number[]; // By seat
+  boneyardCount: number;
+  events: readonly GameEvent[];
+  players: readonly { id: number; name: string; team: number; isBot: boolean }[];
+  rules: RuleSet;
+  options: GameOptions;
+}
+
+// A bot's playing style. Returns null when it has nothing to play (the caller then draws or passes).
+export interface BotStrategy {
+  id: string;
+  name: string;
+  description: string;
+  chooseMove: (view: SeatView, signal?: AbortSignal) => Promise<Move | null>;
+}
+
+// Tunable numbers behind analyzeMoves. Defaults in utils/gameLogic.ts (DEFAULT_WEIGHTS).
+export interface HeuristicWeights {
+  heavy: number; // Multiplier on the tile's pip count
+  leadSuit: number; // Per tile of the suit led
+  block: number;
+  double: number;
+  partnerVoid: number; // Penalty, so normally negative
+  partnerSuit: number;
+  partnerCover: number;
+}
+
+// What a bot can tell about its partner from the public record (see getPartnerInfo)
+export interface PartnerInfo {
+  partnerId: number;
+  passes: number[]; // Numbers the partner knocked on
+  strongSuits: number[]; // Numbers the partner led or chose to leave open, strongest first
+  tilesLeft: number;
+}
+
+// House rules. Clubs disagree on these, so the engine takes them as data (presets in utils/rules.ts)
+export interface RuleSet {
+  id: string;
+  name: string;
+  scoring: 'losers' | 'all_hands'; // Winner scores the losing team's pips, or every pip left on the table
+  tranque: 'lowest_individual' | 'team_total'; // Who wins a locked game
+  tranqueTie: 'no_points' | 'locker_team'; // Tied tranque: nobody scores, or the team of the player who locked it
+  roundToTens: boolean; // Round the points to the nearest 10
+  salida: 'winner' | 'rotation'; // After the first hand: the previous winner leads, or the lead moves one seat on
+}
+
+// Online play (server/index.ts). The server owns the real GameState; each client gets a copy
+// with only its own hand filled in until the round is over.
+export interface RoomSeat {
+  name: string;
+  isBot: boolean; // Nobody has taken it
+  connected: boolean;
+  team: number;
+}
+
+export interface RoomView {
+  code: string;
+  seats: RoomSeat[];
+  hostSeat: number | null;
+  yourSeat: number;
+  options: GameOptions;
+  rules: RuleSet;
+  game: GameState | null; // null in the lobby
+  match: MatchState;
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; options: GameOptions; rules: RuleSet; targetScore: number }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'sit'; seat: number }
+  | { type: 'start' } // Host only: first deal, next round or a new match
+  | { type: 'play'; tile: Tile; side: Side }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'welcome'; code: string; token: string }
+  | { type: 'room'; room: RoomView }
+  | { type: 'error'; message: string };
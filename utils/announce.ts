@@ -0,0 +1,46 @@
+import { GameEvent, Player, Tile } from '../types';
+import { getTeamName, getValidMoves } from './gameLogic';
+
+// Plain-language text for screen readers: tile labels for the hand, and one sentence per game event
+// for the live region.
+
+export const tileLabel = ([a, b]: Tile): string => `${a}–${b}`;
+
+// e.g. "3–7 domino, playable on right"
+export const describeHandTile = (tile: Tile, leftEnd: number | null, rightEnd: number | null): string => {
+  const sides = getValidMoves([tile], leftEnd, rightEnd).map(m => m.side);
+  const fit = leftEnd === null
+    ? 'can lead'
+    : sides.length === 0 ? 'not playable'
+    : sides.length === 1 ? `playable on ${sides[0]}`
+    : leftEnd === rightEnd ? 'playable' : 'playable on either end';
+  return `${tileLabel(tile)} domino, ${fit}`;
+};
+
+const nameOf = (players: Player[], id: number, viewer: number | null) => (id === viewer ? 'You' : players[id]?.name ?? `Player ${id}`);
+
+// viewer is the seat reading the screen (null in pass-and-play, where "you" keeps changing)
+export const describeEvent = (event: GameEvent, players: Player[], viewer: number | null): string => {
+  switch (event.type) {
+    case 'deal': {
+      const starter = nameOf(players, event.starter, viewer);
+      return event.tile
+        ? `New round. ${starter} ${event.starter === viewer ? 'open' : 'opens'} with the double ${event.tile[0]}.`
+        : `New round. ${starter} ${event.starter === viewer ? 'have' : 'has'} the salida.`;
+    }
+    case 'setup':
+      return `Position set up. ${nameOf(players, event.position.currentPlayer, viewer)} to play.`;
+    case 'play':
+      return `${nameOf(players, event.player, viewer)} ${event.player === viewer ? 'play' : 'plays'} ${tileLabel(event.tile)} on the ${event.side}.`;
+    case 'pass':
+      return `${nameOf(players, event.player, viewer)} ${event.player === viewer ? 'pass' : 'passes'}, no ${event.ends[0]} or ${event.ends[1]}.`;
+    case 'draw':
+      return `${nameOf(players, event.player, viewer)} ${event.player === viewer ? 'draw' : 'draws'} from the boneyard.`;
+    case 'round_end': {
+      if (event.team === null) return `Round over by ${event.reason}, tied. Nobody scores.`;
+      const winner = getTeamName(players, event.team, viewer);
+      const plural = winner === 'You' || winner.includes('&');
+      return `Round over by ${event.reason}. ${winner} ${plural ? 'win' : 'wins'} ${event.points} points.`;
+    }
+  }
+};
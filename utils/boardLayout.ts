@@ -0,0 +1,167 @@
+import { GameEvent, Side, Tile } from '../types';
+import { isDouble } from './gameLogic';
+
+// Lays the chain out like a real table: the opening tile sits in the middle, each end grows away from it
+// and turns a corner at the edge of the board area (the right end snakes downward, the left end upward).
+// Doubles stay crosswise. The walk works in half-tile units, one square per pip half, then converts to pixels.
+
+export type TileOrientation = 'horizontal' | 'vertical';
+
+export interface PlacedTile {
+  tile: Tile; // Pips in display order: left to right, or top to bottom
+  x: number; // Top-left corner in px, before scaling
+  y: number;
+  orientation: TileOrientation;
+}
+
+// Where the next tile on a side would go, for the drop targets
+export interface EndSlot {
+  side: Side;
+  x: number;
+  y: number;
+  orientation: TileOrientation;
+}
+
+export interface BoardLayout {
+  tiles: PlacedTile[]; // Same order as the chain
+  ends: EndSlot[];
+  width: number; // px, before scaling
+  height: number;
+  scale: number; // Apply as a CSS transform; never below MIN_BOARD_SCALE
+}
+
+export const BOARD_UNIT_PX = 48; // Half a tile at DominoTile size "md"
+export const MIN_BOARD_SCALE = 0.55; // Smaller than this and the pips get hard to read; the board scrolls instead
+
+const MIN_HALF_WIDTH = 3; // Room for at least a tile and a half either side of the centre, or it can't snake
+const PADDING = 0.5;
+const SCALE_STEP = 0.05;
+
+type Vector = [number, number];
+
+interface Arm {
+  x: number; // Centre of the open half at this end
+  y: number;
+  dir: Vector;
+  turn: Vector; // Which way this end goes at a corner
+  cornerFrom: number | null; // Row the current corner started on; null while running along a row
+  back: Vector; // Direction of the next row
+}
+
+interface Rect {
+  cx: number;
+  cy: number;
+  orientation: TileOrientation;
+  forward: boolean; // Placed going right or down, so the half touching the chain comes first
+}
+
+// Position of the opening tile in the board array: every later play on the left pushed it one further along.
+// A set-up position has no opening tile, so the middle of its starting chain stands in for it.
+export const getOpeningIndex = (events: GameEvent[]): number => {
+  const deal = events.find(e => e.type === 'deal' || e.type === 'setup');
+  const start = deal?.type === 'setup' ? deal.position.board : deal?.type === 'deal' && deal.tile ? [deal.tile] : [];
+  const plays = events.filter(e => e.type === 'play');
+  // On an empty board the first play is the opening tile itself
+  const later = start.length > 0 ? plays : plays.slice(1);
+  return Math.floor(start.length / 2) + later.filter(e => e.type === 'play' && e.side === 'left').length;
+};
+
+// Places one tile at the end of an arm and moves the arm past it
+const step = (arm: Arm, double: boolean, halfWidth: number): Rect => {
+  const length = double ? 1 : 2;
+  // A double needs room for a plain tile after it too: turning right behind a crosswise double would run into it
+  const reach = double ? 3.5 : 2.5;
+  if (arm.cornerFrom === null && arm.dir[1] === 0 && Math.abs(arm.x + arm.dir[0] * reach) > halfWidth) {
+    // Off the edge: go round the corner
+    arm.cornerFrom = arm.y;
+    arm.back = [-arm.dir[0], 0];
+    arm.dir = arm.turn;
+  }
+
+  const [dx, dy] = arm.dir;
+  const along = double ? 1 : 1.5;
+  const rect: Rect = {
+    cx: arm.x + dx * along,
+    cy: arm.y + dy * along,
+    orientation: (dy === 0) !== double ? 'horizontal' : 'vertical',
+    forward: dx + dy > 0
+  };
+  arm.x += dx * length;
+  arm.y += dy * length;
+
+  // Two squares down (or up) clears the row above, doubles included
+  if (arm.cornerFrom !== null && Math.abs(arm.y - arm.cornerFrom) >= 2) {
+    arm.cornerFrom = null;
+    arm.dir = arm.back;
+  }
+  return rect;
+};
+
+const topLeft = ({ cx, cy, orientation }: Rect) =>
+  orientation === 'horizontal' ? { x: cx - 1, y: cy - 0.5 } : { x: cx - 0.5, y: cy - 1 };
+
+const walk = (chain: Tile[], openingIndex: number, halfWidth: number) => {
+  const rects: { tile: Tile; rect: Rect }[] = [];
+  const opening = chain[openingIndex];
+  const openingDouble = isDouble(opening);
+  rects[openingIndex] = { tile: opening, rect: { cx: 0, cy: 0, orientation: openingDouble ? 'vertical' : 'horizontal', forward: true } };
+
+  const reach = openingDouble ? 0 : 0.5;
+  const right: Arm = { x: reach, y: 0, dir: [1, 0], turn: [0, 1], cornerFrom: null, back: [-1, 0] };
+  const left: Arm = { x: -reach, y: 0, dir: [-1, 0], turn: [0, -1], cornerFrom: null, back: [1, 0] };
+
+  // The chain reads left to right, so going right a tile's first pip touches the previous tile, going left its second
+  const place = (arm: Arm, tile: Tile, near: number, far: number) => {
+    const rect = step(arm, isDouble(tile), halfWidth);
+    return { tile: (rect.forward ? [near, far] : [far, near]) as Tile, rect };
+  };
+
+  for (let i = openingIndex + 1; i < chain.length; i++) {
+    rects[i] = place(right, chain[i], chain[i][0], chain[i][1]);
+  }
+  for (let i = openingIndex - 1; i >= 0; i--) {
+    rects[i] = place(left, chain[i], chain[i][1], chain[i][0]);
+  }
+
+  // A plain tile's worth of space past each end, for dropping onto
+  const ends: { side: Side; rect: Rect }[] = [
+    { side: 'left', rect: step({ ...left }, false, halfWidth) },
+    { side: 'right', rect: step({ ...right }, false, halfWidth) }
+  ];
+  return { rects, ends };
+};
+
+export const layoutBoard = (chain: Tile[], openingIndex: number, area: { width: number; height: number }): BoardLayout => {
+  if (chain.length === 0) return { tiles: [], ends: [], width: 0, height: 0, scale: 1 };
+
+  for (let scale = 1; ; scale = Math.max(MIN_BOARD_SCALE, scale - SCALE_STEP)) {
+    // A crosswise double on a corner sticks out half a square past the row it turned from
+    const halfWidth = Math.max(MIN_HALF_WIDTH, area.width / (BOARD_UNIT_PX * scale) / 2 - PADDING - 0.5);
+    const { rects, ends } = walk(chain, openingIndex, halfWidth);
+
+    const corners = [...rects.map(r => r.rect), ...ends.map(e => e.rect)].map(rect => {
+      const { x, y } = topLeft(rect);
+      return rect.orientation === 'horizontal' ? { x, y, right: x + 2, bottom: y + 1 } : { x, y, right: x + 1, bottom: y + 2 };
+    });
+    const minX = Math.min(...corners.map(c => c.x)) - PADDING;
+    const minY = Math.min(...corners.map(c => c.y)) - PADDING;
+    const width = Math.max(...corners.map(c => c.right)) + PADDING - minX;
+    const height = Math.max(...corners.map(c => c.bottom)) + PADDING - minY;
+
+    // Shrink until it fits, but stop at the readable minimum and let the board scroll
+    const fits = width * BOARD_UNIT_PX * scale <= area.width && height * BOARD_UNIT_PX * scale <= area.height;
+    if (fits || scale === MIN_BOARD_SCALE) {
+      const toPx = (rect: Rect) => {
+        const { x, y } = topLeft(rect);
+        return { x: (x - minX) * BOARD_UNIT_PX, y: (y - minY) * BOARD_UNIT_PX, orientation: rect.orientation };
+      };
+      return {
+        tiles: rects.map(({ tile, rect }) => ({ tile, ...toPx(rect) })),
+        ends: ends.map(({ side, rect }) => ({ side, ...toPx(rect) })),
+        width: width * BOARD_UNIT_PX,
+        height: height * BOARD_UNIT_PX,
+        scale
+      };
+    }
+  }
+};
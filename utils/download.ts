@@ -0,0 +1,13 @@
+// Browser-only helpers for saving and opening files
+
+export const downloadFile = (fileName: string, contents: string, mimeType: string = 'application/json') => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readFileAsText = (file: File): Promise<string> => file.text();
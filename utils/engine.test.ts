@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameEvent, GameState, Position } from '../types';
+import { reduce, initialGameState, getRoundEndAction, getStuckAction, isLegalAction, HAND_SIZE, DEFAULT_OPTIONS } from './engine';
+import { dealFromSeed, generateDeck, getValidMoves, areTilesEqual } from './gameLogic';
+import { buildReplayStates } from './replay';
+import { playOut } from './search';
+
+const deal = (seed: number, extra: Partial<Extract<GameAction, { type: 'deal' }>> = {}): GameState =>
+  reduce(initialGameState, { type: 'deal', deck: dealFromSeed(seed), seed, ...extra });
+
+// First seat whose turn it is and which has nothing to play, found by letting bots play on
+const findStuckTurn = (state: GameState): GameState | null => {
+  let s = state;
+  while (s.status === 'playing' && !getRoundEndAction(s)) {
+    const player = s.players[s.currentPlayerIndex];
+    const moves = getValidMoves(player.hand, s.leftEnd, s.rightEnd);
+    if (moves.length === 0) return s;
+    s = reduce(s, { type: 'play', playerId: player.id, tile: moves[0].tile, side: moves[0].side });
+  }
+  return null;
+};
+
+describe('deal', () => {
+  it('deals ten tiles a seat and opens with the highest double', () => {
+    const state = deal(1);
+    expect(state.status).toBe('playing');
+    const dealt = state.events[0];
+    if (dealt.type !== 'deal') throw new Error('expected a deal event');
+    expect(dealt.hands.every(h => h.length === HAND_SIZE)).toBe(true);
+
+    const highest = dealt.hands.flat().filter(([a, b]) => a === b).sort((x, y) => y[0] - x[0])[0];
+    expect(state.board).toEqual([highest]);
+    expect(dealt.tile).toEqual(highest);
+    // Play goes counter-clockwise from whoever opened
+    expect(state.currentPlayerIndex).toBe((dealt.starter + 3) % 4);
+    expect(state.players[dealt.starter].hand).toHaveLength(HAND_SIZE - 1);
+  });
+
+  it('gives the salida to the chosen leader with an empty board', () => {
+    const state = deal(2, { leader: 3 });
+    expect(state.board).toEqual([]);
+    expect(state.currentPlayerIndex).toBe(3);
+    expect(state.players.every(p => p.hand.length === HAND_SIZE)).toBe(true);
+  });
+
+  it('rejects a deck that is not exactly one double-nine set', () => {
+    const deck = dealFromSeed(3);
+    const duplicated = [deck[1], ...deck.slice(1)];
+    expect(reduce(initialGameState, { type: 'deal', deck: duplicated })).toBe(initialGameState);
+    expect(reduce(initialGameState, { type: 'deal', deck: deck.slice(0, 40) })).toBe(initialGameState);
+    expect(reduce(initialGameState, { type: 'deal', deck: [...deck.slice(1), [10, 10]] })).toBe(initialGameState);
+    expect(reduce(initialGameState, { type: 'deal', deck: generateDeck() })).not.toBe(initialGameState);
+  });
+
+  it('rejects a leader outside the table and a deal mid-round', () => {
+    expect(reduce(initialGameState, { type: 'deal', deck: dealFromSeed(4), leader: 4 })).toBe(initialGameState);
+    const state = deal(4);
+    expect(reduce(state, { type: 'deal', deck: dealFromSeed(5) })).toBe(state);
+  });
+
+  it('deals smaller tables', () => {
+    const state = deal(6, { options: { playerCount: 3, teams: true, drawMode: 'draw' } });
+    expect(state.players).toHaveLength(3);
+    expect(state.options.teams).toBe(false); // Teams only with four
+    expect(state.boneyard).toHaveLength(55 - 3 * HAND_SIZE);
+  });
+});
+
+describe('play', () => {
+  it('places a fitting tile on the chosen end and passes the turn', () => {
+    const state = deal(7);
+    const player = state.players[state.currentPlayerIndex];
+    const [move] = getValidMoves(player.hand, state.leftEnd, state.rightEnd);
+    if (!move) throw new Error('the first player has nothing to play');
+
+    const next = reduce(state, { type: 'play', playerId: player.id, tile: move.tile, side: move.side });
+    expect(next.board).toHaveLength(2);
+    expect(next.players[player.id].hand.some(t => areTilesEqual(t, move.tile))).toBe(false);
+    expect(next.currentPlayerIndex).toBe((player.id + 3) % 4);
+    expect(next.events[next.events.length - 1]).toEqual({ type: 'play', player: player.id, tile: move.tile, side: move.side });
+  });
+
+  it('ignores plays out of turn, with tiles not in hand, or that do not fit', () => {
+    const state = deal(8);
+    const current = state.currentPlayerIndex;
+    const other = (current + 1) % 4;
+    const own = state.players[current].hand;
+    const elsewhere = state.players[other].hand[0];
+
+    expect(reduce(state, { type: 'play', playerId: other, tile: elsewhere, side: 'left' })).toBe(state);
+    expect(reduce(state, { type: 'play', playerId: current, tile: elsewhere, side: 'left' })).toBe(state);
+    const misfit = own.find(t => !t.includes(state.leftEnd!) && !t.includes(state.rightEnd!));
+    if (!misfit) throw new Error('every tile fits');
+    expect(reduce(state, { type: 'play', playerId: current, tile: misfit, side: 'right' })).toBe(state);
+  });
+});
+
+describe('stuck turns', () => {
+  it('only lets a player knock when they cannot play', () => {
+    const state = deal(9);
+    const current = state.players[state.currentPlayerIndex];
+    if (getValidMoves(current.hand, state.leftEnd, state.rightEnd).length > 0) {
+      expect(isLegalAction(state, { type: 'pass', playerId: current.id })).toBe(false);
+    }
+    const stuck = findStuckTurn(state);
+    if (!stuck) throw new Error('no stuck turn found');
+    const seat = stuck.currentPlayerIndex;
+    expect(getStuckAction(stuck, seat)).toEqual({ type: 'pass', playerId: seat });
+    const passed = reduce(stuck, { type: 'pass', playerId: seat });
+    expect(passed.passHistory[seat]).toEqual(expect.arrayContaining([stuck.leftEnd, stuck.rightEnd]));
+    expect(isLegalAction(stuck, { type: 'draw', playerId: seat })).toBe(false); // Pass games never draw
+  });
+
+  it('makes a stuck player draw the top tile and stay on turn in a draw game', () => {
+    let stuck: GameState | null = null;
+    for (let seed = 10; !stuck && seed < 60; seed++) {
+      stuck = findStuckTurn(deal(seed, { options: { ...DEFAULT_OPTIONS, drawMode: 'draw' } }));
+    }
+    if (!stuck) throw new Error('no stuck turn found');
+    const seat = stuck.currentPlayerIndex;
+    expect(isLegalAction(stuck, { type: 'pass', playerId: seat })).toBe(false);
+
+    const drawn = reduce(stuck, getStuckAction(stuck, seat));
+    expect(drawn.currentPlayerIndex).toBe(seat);
+    expect(drawn.boneyard).toEqual(stuck.boneyard.slice(1));
+    expect(drawn.players[seat].hand).toContainEqual(stuck.boneyard[0]);
+  });
+});
+
+describe('round end', () => {
+  it('plays every round to a domino or tranque that replays to the same table', () => {
+    for (let seed = 100; seed < 130; seed++) {
+      const done = playOut(deal(seed, { options: { ...DEFAULT_OPTIONS, drawMode: seed % 2 ? 'pass' : 'draw' } }));
+      expect(done.status).toBe('round_over');
+      expect(['domino', 'tranque']).toContain(done.winner?.reason);
+      expect(getRoundEndAction(done)).toBeNull();
+
+      const replayed = buildReplayStates(done.events);
+      expect(replayed[replayed.length - 1].board).toEqual(done.board);
+      expect(replayed[replayed.length - 1].winner).toEqual(done.winner);
+    }
+  });
+
+  it('ignores moves once the round is over', () => {
+    const done = playOut(deal(131));
+    const seat = done.currentPlayerIndex;
+    const tile = done.players[seat].hand[0] ?? done.board[0];
+    expect(reduce(done, { type: 'play', playerId: seat, tile, side: 'left' })).toBe(done);
+    expect(reduce(done, { type: 'end_round', reason: 'domino', team: 0 })).toBe(done);
+  });
+});
+
+describe('undo', () => {
+  it('rolls back to the snapshot and counts the take-back', () => {
+    const start = deal(12, { leader: 0 }); // A salida, so there's always a tile to lead
+    const player = start.players[0];
+    const [move] = getValidMoves(player.hand, start.leftEnd, start.rightEnd);
+    const played = reduce(start, { type: 'play', playerId: player.id, tile: move.tile, side: move.side });
+
+    const undone = reduce(played, { type: 'undo', snapshot: start });
+    expect(undone.board).toEqual(start.board);
+    expect(undone.undoCount).toBe(1);
+    // A snapshot from the future, or the same moment, is no take-back
+    expect(reduce(start, { type: 'undo', snapshot: played })).toBe(start);
+    expect(reduce(start, { type: 'undo', snapshot: start })).toBe(start);
+  });
+});
+
+describe('replay', () => {
+  it('refuses a set-up position that could not happen', () => {
+    const state = deal(13);
+    const hands = state.players.map(p => p.hand);
+    const position: Position = {
+      board: state.board, leftEnd: state.leftEnd, rightEnd: state.rightEnd, hands: [[hands[1][0], ...hands[0].slice(1)], ...hands.slice(1)],
+      boneyard: state.boneyard, passHistory: state.passHistory, currentPlayer: state.currentPlayerIndex, options: state.options
+    };
+    const events: GameEvent[] = [{ type: 'setup', position }];
+    expect(() => buildReplayStates(events)).toThrow(/Event 1 \(setup\): .* is in both/);
+  });
+});
@@ -0,0 +1,296 @@
+import { GameState, GameAction, GameOptions, Player, Tile, Side, RoundEndReason, RuleSet, SeatSetup, Position } from '../types';
+import { determineStarter, getValidMoves, getTeamName, areTilesEqual, generateDeck } from './gameLogic';
+import { DEFAULT_RULES, resolveTranque, calculateRoundPoints } from './rules';
+
+export type { GameState, GameAction } from '../types';
+
+// Headless game engine. Everything here is pure so the same rules run in the
+// React app, in Node scripts, and in tests.
+
+export const HAND_SIZE = 10;
+
+export const DEFAULT_OPTIONS: GameOptions = { playerCount: 4, teams: true, drawMode: 'pass' };
+
+export const initialGameState: GameState = {
+  players: [],
+  board: [],
+  boneyard: [],
+  leftEnd: null,
+  rightEnd: null,
+  currentPlayerIndex: 0,
+  status: 'idle',
+  logs: [],
+  events: [],
+  winner: null,
+  passHistory: { 0: [], 1: [], 2: [], 3: [] },
+  seed: null,
+  undoCount: 0,
+  rules: DEFAULT_RULES,
+  options: DEFAULT_OPTIONS
+};
+
+// Play goes counter-clockwise: 0 (You) -> 3 (Right) -> 2 (Partner) -> 1 (Left), or the
+// same direction around a smaller table
+export const getNextPlayerIndex = (current: number, playerCount: number = 4) => (current - 1 + playerCount) % playerCount;
+
+const SEAT_NAMES: Record<GameOptions['playerCount'], string[]> = {
+  2: ['You', 'Bot 1 (Across)'],
+  3: ['You', 'Bot 1 (Left)', 'Bot 2 (Right)'],
+  4: ['You', 'Bot 1 (Left)', 'Bot 2 (Partner)', 'Bot 3 (Right)'],
+};
+
+export const createPlayers = (deck: Tile[], options: GameOptions, seats?: SeatSetup[]): Player[] =>
+  SEAT_NAMES[options.playerCount].map((name, id) => ({
+    id,
+    name: seats?.[id]?.name ?? (options.teams || id !== 2 ? name : 'Bot 2 (Across)'),
+    isBot: seats?.[id]?.isBot ?? id !== 0,
+    hand: deck.slice(id * HAND_SIZE, (id + 1) * HAND_SIZE),
+    team: options.teams ? id % 2 : id
+  }));
+
+const FULL_DECK = generateDeck();
+
+// A shuffled double-nine set: every tile exactly once and nothing else
+const isFullDeck = (deck: Tile[]): boolean =>
+  deck.length === FULL_DECK.length && FULL_DECK.every(tile => deck.filter(t => areTilesEqual(t, tile)).length === 1);
+
+const emptyPassHistory = (players: Player[]) => Object.fromEntries(players.map(p => [p.id, [] as number[]]));
+
+// Teams only make sense with four at the table
+export const normalizeOptions = (options: GameOptions): GameOptions =>
+  ({ ...options, teams: options.teams && options.playerCount === 4 });
+
+export const getTeamCount = (options: GameOptions): number => (normalizeOptions(options).teams ? 2 : options.playerCount);
+
+const dealRound = (deck: Tile[], seed: number | null, rules: RuleSet, options: GameOptions, leader?: number, seats?: SeatSetup[]): GameState => {
+  const players = createPlayers(deck, options, seats);
+  const boneyard = deck.slice(HAND_SIZE * players.length);
+  const hands = players.map(p => [...p.hand]);
+  const base = { ...initialGameState, status: 'playing' as const, players, boneyard, passHistory: emptyPassHistory(players), seed, rules, options };
+
+  // Salida: the leader opens with any tile, so the board starts empty and it's their move
+  if (leader !== undefined) {
+    return {
+      ...base,
+      currentPlayerIndex: leader,
+      logs: [`Game Started. ${players[leader].name} has the salida.`],
+      events: [{ type: 'deal', seed, hands, boneyard, starter: leader, tile: null, rules, options, ...(seats && { seats }) }]
+    };
+  }
+
+  const { starterIndex, startTile } = determineStarter(players, boneyard);
+  const starter = players[starterIndex];
+  starter.hand = starter.hand.filter(t => !areTilesEqual(t, startTile));
+
+  return {
+    ...base,
+    board: [startTile],
+    leftEnd: startTile[0],
+    rightEnd: startTile[1],
+    currentPlayerIndex: getNextPlayerIndex(starterIndex, players.length),
+    logs: [`Game Started. ${starter.name} leads with [${startTile[0]}|${startTile[1]}].`],
+    events: [{ type: 'deal', seed, hands, boneyard, starter: starterIndex, tile: startTile, rules, options, ...(seats && { seats }) }]
+  };
+};
+
+// The round picks up from a hand-built position, with everything about how it got there already known
+const setupRound = (position: Position, rules: RuleSet): GameState => {
+  const options = normalizeOptions(position.options);
+  const players = createPlayers([], options).map(p => ({ ...p, hand: [...position.hands[p.id]] }));
+  const passHistory = { ...emptyPassHistory(players) };
+  players.forEach(p => { passHistory[p.id] = [...(position.passHistory[p.id] ?? [])]; });
+
+  return {
+    ...initialGameState,
+    status: 'playing',
+    players,
+    board: [...position.board],
+    boneyard: [...position.boneyard],
+    leftEnd: position.leftEnd,
+    rightEnd: position.rightEnd,
+    currentPlayerIndex: position.currentPlayer,
+    passHistory,
+    rules,
+    options,
+    logs: [`Position set up. ${players[position.currentPlayer].name} to play.`],
+    events: [{ type: 'setup', position, rules }]
+  };
+};
+
+const applyPlay = (state: GameState, playerId: number, tile: Tile, side: Side): GameState => {
+  const player = state.players.find(p => p.id === playerId)!;
+  const newHand = player.hand.filter(t => !areTilesEqual(t, tile));
+  const newPlayers = state.players.map(p => p.id === playerId ? { ...p, hand: newHand } : p);
+
+  let newLeft = state.leftEnd!;
+  let newRight = state.rightEnd!;
+  const newBoard = [...state.board];
+
+  if (newBoard.length === 0) {
+    // Opening tile sets both ends
+    [newLeft, newRight] = tile;
+    newBoard.push(tile);
+  } else if (side === 'left') {
+    newLeft = tile[0] === newLeft ? tile[1] : tile[0];
+    newBoard.unshift(tile);
+  } else {
+    newRight = tile[0] === newRight ? tile[1] : tile[0];
+    newBoard.push(tile);
+  }
+
+  return {
+    ...state,
+    players: newPlayers,
+    board: newBoard,
+    leftEnd: newLeft,
+    rightEnd: newRight,
+    currentPlayerIndex: getNextPlayerIndex(state.currentPlayerIndex, state.players.length),
+    logs: [...state.logs, state.board.length === 0
+      ? `${player.name} leads with [${tile[0]}|${tile[1]}].`
+      : `${player.name} plays [${tile[0]}|${tile[1]}] on the ${side}.`],
+    events: [...state.events, { type: 'play', player: playerId, tile, side }]
+  };
+};
+
+const applyPass = (state: GameState, playerId: number): GameState => {
+  const player = state.players.find(p => p.id === playerId)!;
+  const missed: number[] = [];
+  if (state.leftEnd !== null) missed.push(state.leftEnd);
+  if (state.rightEnd !== null && state.rightEnd !== state.leftEnd) missed.push(state.rightEnd);
+
+  return {
+    ...state,
+    currentPlayerIndex: getNextPlayerIndex(state.currentPlayerIndex, state.players.length),
+    logs: [...state.logs, `${player.name} passes (Knock).`],
+    events: [...state.events, { type: 'pass', player: playerId, ends: [state.leftEnd!, state.rightEnd!] }],
+    passHistory: { ...state.passHistory, [playerId]: [...(state.passHistory[playerId] || []), ...missed] }
+  };
+};
+
+// Robar: take the top boneyard tile and stay on turn
+const applyDraw = (state: GameState, playerId: number): GameState => {
+  const [tile, ...boneyard] = state.boneyard;
+  return {
+    ...state,
+    boneyard,
+    players: state.players.map(p => p.id === playerId ? { ...p, hand: [...p.hand, tile] } : p),
+    logs: [...state.logs, `${state.players[playerId].name} draws from the boneyard.`],
+    events: [...state.events, { type: 'draw', player: playerId, tile }]
+  };
+};
+
+const applyRoundEnd = (state: GameState, reason: RoundEndReason, winningTeam: number | null): GameState => {
+  const points = calculateRoundPoints(state.players, winningTeam, state.rules);
+  const log = winningTeam === null
+    ? `Round Over! Tied ${reason}, no points.`
+    : `Round Over! ${getTeamName(state.players, winningTeam, null)} won via ${reason}. Points: ${points}.`;
+
+  return {
+    ...state,
+    status: 'round_over',
+    winner: { team: winningTeam, reason, points },
+    logs: [...state.logs, log],
+    events: [...state.events, { type: 'round_end', reason, team: winningTeam, points, undos: state.undoCount }]
+  };
+};
+
+const canPlay = (state: GameState, playerId: number) =>
+  getValidMoves(state.players[playerId].hand, state.leftEnd, state.rightEnd).length > 0;
+
+const canDraw = (state: GameState) => state.options.drawMode === 'draw' && state.boneyard.length > 0;
+
+// What a player with nothing to play has to do: draw in a draw game while tiles remain, otherwise knock
+export const getStuckAction = (state: GameState, playerId: number): GameAction =>
+  canDraw(state) ? { type: 'draw', playerId } : { type: 'pass', playerId };
+
+// Returns true if the action is legal in the given state. The reducer ignores illegal actions.
+export const isLegalAction = (state: GameState, action: GameAction): boolean => {
+  switch (action.type) {
+    case 'deal': {
+      const count = (action.options ?? state.options).playerCount;
+      return state.status !== 'playing' && isFullDeck(action.deck) &&
+        (action.leader === undefined || (action.leader >= 0 && action.leader < count));
+    }
+    case 'setup': {
+      const { hands, currentPlayer, options } = action.position;
+      return state.status !== 'playing' && hands.length === options.playerCount && currentPlayer >= 0 && currentPlayer < options.playerCount;
+    }
+    case 'play': {
+      if (state.status !== 'playing' || state.currentPlayerIndex !== action.playerId) return false;
+      const player = state.players[action.playerId];
+      if (!player.hand.some(t => areTilesEqual(t, action.tile))) return false;
+      return getValidMoves([action.tile], state.leftEnd, state.rightEnd).some(m => m.side === action.side);
+    }
+    case 'pass': {
+      if (state.status !== 'playing' || state.currentPlayerIndex !== action.playerId) return false;
+      // You may only knock when you have nothing to play, and in draw games only once the boneyard is empty
+      return !canPlay(state, action.playerId) && !canDraw(state);
+    }
+    case 'draw':
+      if (state.status !== 'playing' || state.currentPlayerIndex !== action.playerId) return false;
+      return !canPlay(state, action.playerId) && canDraw(state);
+    case 'end_round':
+      return state.status === 'playing';
+    case 'undo':
+      // Only within the round that is still being played
+      return state.status === 'playing' && action.snapshot.status === 'playing' && action.snapshot.seed === state.seed &&
+        action.snapshot.events.length < state.events.length;
+    case 'resume':
+      return state.status === 'idle' && action.snapshot.status !== 'idle';
+  }
+};
+
+export const reduce = (state: GameState, action: GameAction): GameState => {
+  if (!isLegalAction(state, action)) return state;
+
+  switch (action.type) {
+    case 'deal':
+      return dealRound(action.deck, action.seed ?? null, action.rules ?? state.rules, normalizeOptions(action.options ?? state.options), action.leader, action.seats);
+    case 'setup':
+      return setupRound(action.position, action.rules ?? state.rules);
+    case 'play':
+      return applyPlay(state, action.playerId, action.tile, action.side);
+    case 'pass':
+      return applyPass(state, action.playerId);
+    case 'draw':
+      return applyDraw(state, action.playerId);
+    case 'end_round':
+      return applyRoundEnd(state, action.reason, action.team);
+    case 'undo':
+      // The take-back counter survives the rollback so it can't be undone itself
+      return {
+        ...action.snapshot,
+        undoCount: state.undoCount + 1,
+        logs: [...action.snapshot.logs, 'You take back your last move.']
+      };
+    case 'resume':
+      return action.snapshot;
+  }
+};
+
+// Checks whether the round is finished (someone dominoed or the board is locked).
+// Callers dispatch the returned action; the reducer never ends a round on its own.
+export const getRoundEndAction = (state: GameState): GameAction | null => {
+  if (state.status !== 'playing') return null;
+
+  // Domino: the player who just played emptied their hand
+  const dominoPlayer = state.players.find(p => p.hand.length === 0);
+  if (dominoPlayer) {
+    return { type: 'end_round', reason: 'domino', team: dominoPlayer.team };
+  }
+
+  // Tranque: nobody can play on either end (and in a draw game, nothing left to draw)
+  const anyValidMove = state.players.some(p =>
+    getValidMoves(p.hand, state.leftEnd, state.rightEnd).length > 0
+  );
+
+  if (!anyValidMove && !canDraw(state) && state.board.length > 0) {
+    // Whoever made the last play is the one who locked it
+    const lastPlay = [...state.events].reverse().find(e => e.type === 'play' || e.type === 'deal');
+    const locker = lastPlay?.type === 'play' ? lastPlay.player : lastPlay?.type === 'deal' ? lastPlay.starter : null;
+    const lockerTeam = locker !== null ? state.players[locker].team : null;
+    return { type: 'end_round', reason: 'tranque', team: resolveTranque(state.players, lockerTeam, state.rules) };
+  }
+
+  return null;
+};
@@ -1,4 +1,5 @@
-import { GameState, Player, Tile, Move } from '../types';
+import { GameState, Player, Tile, Move, MoveAnalysis, MoveFactor, PartnerInfo, HeuristicWeights } from '../types';
+import { Rng, createRng } from './random';
 
 // Generate Double-9 Set (0-0 to 9-9) -> 55 Tiles
 export const generateDeck = (): Tile[] => {
@@ -11,15 +12,38 @@ export const generateDeck = (): Tile[] => {
   return deck;
 };
 
-export const shuffleDeck = (deck: Tile[]): Tile[] => {
+export const shuffleDeck = (deck: Tile[], rng: Rng = Math.random): Tile[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 };
 
+// Same seed -> same four hands and boneyard
+export const dealFromSeed = (seed: number): Tile[] => shuffleDeck(generateDeck(), createRng(seed));
+
+// Rotates the dealt 10-tile hands so seat 0 receives the hand normally dealt to `seat`.
+// Lets the user replay a deal code from a different chair; the boneyard is untouched.
+export const rotateDealSeats = (deck: Tile[], seat: number, playerCount: number = 4, handSize: number = 10): Tile[] => {
+  const seats = Array.from({ length: playerCount }, (_, i) => i);
+  const hands = seats.map(i => deck.slice(i * handSize, (i + 1) * handSize));
+  const rotated = seats.flatMap(i => hands[(i + seat) % playerCount]);
+  return [...rotated, ...deck.slice(handSize * playerCount)];
+};
+
+// "You & Bot 2", "Bots 1 & 3", or a single player's name in individual play.
+// viewerId is the seat shown as "You" (null for a neutral name, e.g. in the shared log).
+export const getTeamName = (players: Player[], team: number, viewerId: number | null = 0): string => {
+  const members = players.filter(p => p.team === team);
+  const shortName = (p: Player) => (p.id === viewerId ? 'You' : p.name.split(' (')[0]);
+  if (members.length === 1) return members[0].id === viewerId ? 'You' : members[0].name;
+  const names = [...members].sort((a, b) => Number(b.id === viewerId) - Number(a.id === viewerId)).map(shortName);
+  if (names.every(n => /^Bot \d+$/.test(n))) return `Bots ${members.map(p => p.id).join(' & ')}`;
+  return names.join(' & ');
+};
+
 export const getTileSum = (tile: Tile): number => tile[0] + tile[1];
 
 export const isDouble = (tile: Tile): boolean => tile[0] === tile[1];
@@ -89,65 +113,166 @@ export const getValidMoves = (hand: Tile[], leftEnd: number | null, rightEnd: nu
   return moves;
 };
 
+// Orients every board tile so touching halves line up, left to right, for rendering
+export const getVisualChain = (board: Tile[], leftEnd: number | null): Tile[] => {
+  if (board.length === 0) return [];
+  let expectedMatch = leftEnd;
+  return board.map(tile => {
+    const [a, b] = tile;
+    if (a === expectedMatch) {
+      expectedMatch = b;
+      return [a, b] as Tile;
+    }
+    expectedMatch = a;
+    return [b, a] as Tile;
+  });
+};
+
+// Open ends after playing `move`, as [left, right]
+export const getResultingEnds = (move: Move, leftEnd: number | null, rightEnd: number | null): [number, number] => {
+  const [a, b] = move.tile;
+  if (leftEnd === null || rightEnd === null) return [a, b]; // Opening tile
+  if (move.side === 'left') return [a === leftEnd ? b : a, rightEnd];
+  return [leftEnd, a === rightEnd ? b : a];
+};
+
+// Partner modelling. A player "shows" a number by leading it or by leaving it as the new
+// open end, and nobody holds a number they've knocked on.
+export const getPartnerInfo = (state: GameState, playerId: number): PartnerInfo | undefined => {
+  const me = state.players[playerId];
+  const partner = state.players.find(p => p.id !== playerId && p.team === me?.team);
+  if (!partner) return undefined;
+
+  const shown = Array(10).fill(0);
+  let left: number | null = null;
+  let right: number | null = null;
+  state.events.forEach(e => {
+    if (e.type === 'deal') {
+      if (!e.tile) return;
+      [left, right] = e.tile;
+    } else if (e.type === 'setup') {
+      [left, right] = [e.position.leftEnd, e.position.rightEnd];
+    } else if (e.type === 'play') {
+      const ends = getResultingEnds(e, left, right);
+      if (e.player === partner.id) {
+        if (left === null) {
+          // A chosen lead is the clearest signal there is: that's their suit
+          shown[e.tile[0]] += 2;
+          shown[e.tile[1]] += 2;
+        } else {
+          shown[e.side === 'left' ? ends[0] : ends[1]]++;
+        }
+      }
+      [left, right] = ends;
+    }
+  });
+
+  const passes = [...new Set(state.passHistory[partner.id] || [])];
+  const strongSuits = shown
+    .map((count, suit) => ({ count, suit }))
+    .filter(s => s.count > 0 && !passes.includes(s.suit))
+    .sort((a, b) => b.count - a.count)
+    .map(s => s.suit);
+
+  return { partnerId: partner.id, passes, strongSuits, tilesLeft: partner.hand.length };
+};
+
 // AI Logic
-export const calculateBotMove = (
-  hand: Tile[], 
-  leftEnd: number | null, 
+export const DEFAULT_WEIGHTS: HeuristicWeights = {
+  heavy: 1,
+  leadSuit: 4,
+  block: 25,
+  double: 10,
+  partnerVoid: -8,
+  partnerSuit: 6,
+  partnerCover: 20,
+};
+
+// Scores every legal move with a breakdown of why. The bots pick the top entry and the
+// hint panel shows the whole list, so both always agree.
+export const analyzeMoves = (
+  hand: Tile[],
+  leftEnd: number | null,
   rightEnd: number | null,
   passHistory: { [id: number]: number[] },
-  nextPlayerId: number
-): Move | null => {
+  nextPlayerId: number,
+  partner?: PartnerInfo,
+  weights: HeuristicWeights = DEFAULT_WEIGHTS
+): MoveAnalysis[] => {
   const validMoves = getValidMoves(hand, leftEnd, rightEnd);
 
-  if (validMoves.length === 0) return null;
-
-  // If only one move, take it
-  if (validMoves.length === 1) return validMoves[0];
-
-  // Scoring weights
-  const scoredMoves = validMoves.map(move => {
-    let score = 0;
+  const analyses = validMoves.map(move => {
+    const factors: MoveFactor[] = [];
     const tile = move.tile;
-    const pipSum = getTileSum(tile);
+    const resultingEnds = getResultingEnds(move, leftEnd, rightEnd);
 
     // 1. Bota Gorda (Heaviest Tile): Base score is pip count
-    score += pipSum;
+    factors.push({ key: 'heavy', label: 'Sheds pips (bota gorda)', points: getTileSum(tile) * weights.heavy });
+
+    // Salida: lead from your longest suit so you control that number
+    if (leftEnd === null) {
+      const suitLength = (n: number) => hand.filter(t => t[0] === n || t[1] === n).length;
+      const suit = suitLength(tile[0]) >= suitLength(tile[1]) ? tile[0] : tile[1];
+      const length = suitLength(suit);
+      if (length > 1) {
+        factors.push({ key: 'lead_suit', label: `Leads your longest suit (${length} ${suit}s)`, points: length * weights.leadSuit });
+      }
+    }
 
     // 2. Suit Counting / Blocking (Simple Implementation)
     // Determine what the NEW open end would be if we play this
-    const currentEnd = move.side === 'left' ? leftEnd : rightEnd;
-    const newOpenEnd = tile[0] === currentEnd ? tile[1] : tile[0];
+    const newOpenEnd = move.side === 'left' ? resultingEnds[0] : resultingEnds[1];
 
     // Check if the NEXT player (opponent) has passed on this number before
-    // nextPlayerId needs to be calculated in the component, but we pass it in here.
     const nextPlayerPasses = passHistory[nextPlayerId] || [];
-    if (nextPlayerPasses.includes(newOpenEnd)) {
-      score += 25; // Huge bonus for blocking the next player
+    if (leftEnd !== null && nextPlayerPasses.includes(newOpenEnd)) {
+      factors.push({ key: 'block', label: `Blocks next player (passed on ${newOpenEnd})`, points: weights.block });
     }
 
-    // 3. Keep diverse suits (Simple)
-    // We prefer to keep doubles if we have a matching non-double to clear the path? 
-    // Actually, heuristic 1 says "Play high doubles early".
+    // 3. Heuristic says "Play high doubles early"
     if (isDouble(tile)) {
-      score += 10; // Bonus for getting rid of doubles
+      factors.push({ key: 'double', label: 'Dumps a double', points: weights.double });
     }
 
-    return { move, score };
-  });
+    // 4. Partner play: feed their numbers, don't hand them ends they can't match
+    if (partner && leftEnd !== null && rightEnd !== null) {
+      const closedEnd = move.side === 'left' ? leftEnd : rightEnd;
+      const partnerSuit = partner.strongSuits.slice(0, 2).includes(newOpenEnd);
+      const partnerAboutToWin = partner.tilesLeft <= 2;
 
-  // Sort by score descending
-  scoredMoves.sort((a, b) => b.score - a.score);
+      if (partner.passes.includes(newOpenEnd)) {
+        factors.push({ key: 'partner_void', label: `Partner is out of ${newOpenEnd}`, points: weights.partnerVoid });
+      } else if (partnerSuit) {
+        factors.push({ key: 'partner_suit', label: `Feeds partner's ${newOpenEnd}s`, points: weights.partnerSuit });
+      }
 
-  return scoredMoves[0].move;
-};
+      // Covering: with partner one or two tiles from dominoing, keep their numbers alive
+      if (partnerAboutToWin) {
+        if (partner.strongSuits.includes(newOpenEnd)) {
+          factors.push({ key: 'partner_cover', label: 'Keeps a number open for partner to domino', points: weights.partnerCover });
+        } else if (partner.strongSuits.includes(closedEnd) && closedEnd !== newOpenEnd) {
+          factors.push({ key: 'partner_cover', label: `Covers partner's ${closedEnd} just before they domino`, points: -weights.partnerCover });
+        }
+      }
+    }
 
-export const calculateScores = (players: Player[]): { team0: number, team1: number } => {
-  let team0 = 0;
-  let team1 = 0;
-  players.forEach(p => {
-    const pips = p.hand.reduce((acc, t) => acc + getTileSum(t), 0);
-    if (p.team === 0) team0 += pips;
-    else team1 += pips;
+    const score = factors.reduce((sum, f) => sum + f.points, 0);
+    return { move, score, factors, resultingEnds };
   });
-  return { team0, team1 };
-};
\ No newline at end of file
+
+  // Sort by score descending (stable, so ties keep hand order)
+  return analyses.sort((a, b) => b.score - a.score);
+};
+
+export const calculateBotMove = (
+  hand: Tile[], 
+  leftEnd: number | null, 
+  rightEnd: number | null,
+  passHistory: { [id: number]: number[] },
+  nextPlayerId: number,
+  partner?: PartnerInfo,
+  weights: HeuristicWeights = DEFAULT_WEIGHTS
+): Move | null => {
+  const analyses = analyzeMoves(hand, leftEnd, rightEnd, passHistory, nextPlayerId, partner, weights);
+  return analyses.length > 0 ? analyses[0].move : null;
+};
@@ -0,0 +1,18 @@
+import { Move, Tile } from '../types';
+
+// Type guards for data from outside the app: network messages, localStorage, imported files.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isPip = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 9;
+
+export const isTile = (value: unknown): value is Tile =>
+  Array.isArray(value) && value.length === 2 && value.every(isPip);
+
+export const oneOf = <T extends string | number>(value: unknown, allowed: readonly T[]): value is T =>
+  (allowed as readonly unknown[]).includes(value);
+
+export const isMove = (value: unknown): value is Move =>
+  isRecord(value) && isTile(value.tile) && (value.side === 'left' || value.side === 'right');
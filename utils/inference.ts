@@ -0,0 +1,193 @@
+import { GameState, GameEvent, Position, Tile } from '../types';
+import { generateDeck, areTilesEqual } from './gameLogic';
+
+// Tile counting: from one seat's point of view, who could still be holding each tile?
+// Starts from the viewer's own hand and is narrowed by every play and pass (and loosened again by draws).
+
+export const BONEYARD = -1; // Holder id for the undealt tiles
+
+const DECK = generateDeck();
+
+export const tileIndex = (tile: Tile): number => DECK.findIndex(t => areTilesEqual(t, tile));
+
+export interface InferenceState {
+  viewerId: number;
+  holders: number[]; // Other player ids, plus BONEYARD
+  possible: Record<number, boolean[]>; // holder -> tile index -> could hold it
+  counts: Record<number, number>; // How many tiles each holder has
+  played: boolean[]; // tile index -> on the board
+  own: boolean[]; // tile index -> in the viewer's hand
+  voids: Record<number, number[]>; // Numbers each player is known to be out of
+}
+
+export const createInference = (viewerId: number, viewerHand: Tile[], counts: Record<number, number>): InferenceState => {
+  const own = DECK.map(t => viewerHand.some(h => areTilesEqual(h, t)));
+  const holders = Object.keys(counts).map(Number).filter(id => id !== viewerId);
+  const possible: Record<number, boolean[]> = {};
+  holders.forEach(h => { possible[h] = own.map(o => !o); });
+
+  return propagate({
+    viewerId,
+    holders,
+    possible,
+    counts: { ...counts },
+    played: DECK.map(() => false),
+    own,
+    voids: Object.fromEntries(holders.filter(h => h !== BONEYARD).map(h => [h, []]))
+  });
+};
+
+// Repeats the two simple deductions until nothing changes:
+// - a tile only one holder can have is theirs for sure
+// - a holder with exactly as many candidates as tiles holds all of them, so nobody else does
+const propagate = (inf: InferenceState): InferenceState => {
+  const possible = Object.fromEntries(inf.holders.map(h => [h, [...inf.possible[h]]]));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    inf.holders.forEach(h => {
+      const candidates = possible[h].reduce((n, p) => n + (p ? 1 : 0), 0);
+      if (candidates !== inf.counts[h]) return;
+      possible[h].forEach((p, i) => {
+        if (!p) return;
+        inf.holders.forEach(o => {
+          if (o !== h && possible[o][i]) {
+            possible[o][i] = false;
+            changed = true;
+          }
+        });
+      });
+    });
+  }
+
+  return { ...inf, possible };
+};
+
+export const updateInference = (inf: InferenceState, event: GameEvent): InferenceState => {
+  switch (event.type) {
+    case 'play': {
+      if (event.player === inf.viewerId) return inf; // Our own hand is tracked by the caller
+      const i = tileIndex(event.tile);
+      const possible = Object.fromEntries(inf.holders.map(h => [h, inf.possible[h].map((p, j) => j === i ? false : p)]));
+      const played = inf.played.map((p, j) => p || j === i);
+      const counts = { ...inf.counts, [event.player]: inf.counts[event.player] - 1 };
+      return propagate({ ...inf, possible, played, counts });
+    }
+    case 'pass': {
+      if (event.player === inf.viewerId) return inf;
+      // A knock means no tile with either open number
+      const voids = [...new Set([...inf.voids[event.player], ...event.ends])];
+      const possible = {
+        ...inf.possible,
+        [event.player]: inf.possible[event.player].map((p, j) => p && !voids.includes(DECK[j][0]) && !voids.includes(DECK[j][1]))
+      };
+      return propagate({ ...inf, possible, voids: { ...inf.voids, [event.player]: voids } });
+    }
+    case 'draw': {
+      const counts = { ...inf.counts, [BONEYARD]: inf.counts[BONEYARD] - 1 };
+      if (event.player === inf.viewerId && event.tile) {
+        // We saw the tile, so it's simply ours now
+        const i = tileIndex(event.tile);
+        const possible = Object.fromEntries(inf.holders.map(h => [h, inf.possible[h].map((p, j) => j !== i && p)]));
+        return propagate({ ...inf, possible, counts, own: inf.own.map((o, j) => o || j === i) });
+      }
+      if (event.player === inf.viewerId) return inf;
+      // The new tile could be anything from the boneyard, so their old voids no longer hold for the whole hand
+      const possible = {
+        ...inf.possible,
+        [event.player]: inf.possible[event.player].map((p, j) => p || inf.possible[BONEYARD][j])
+      };
+      counts[event.player] = inf.counts[event.player] + 1;
+      return propagate({ ...inf, possible, counts, voids: { ...inf.voids, [event.player]: [] } });
+    }
+    default:
+      return inf;
+  }
+};
+
+// Replays the round's events from one seat's point of view
+export const buildInference = (state: GameState, viewerId: number): InferenceState => {
+  const deal = state.events.find(e => e.type === 'deal' || e.type === 'setup');
+  if (!deal || (deal.type !== 'deal' && deal.type !== 'setup')) {
+    const counts = Object.fromEntries(state.players.map(p => [p.id, p.hand.length]));
+    return createInference(viewerId, state.players[viewerId]?.hand ?? [], { ...counts, [BONEYARD]: state.boneyard.length });
+  }
+
+  // Starting hand sizes from public information only (current counts, plays and draws), so this
+  // also works on a seat view where the deal shows nobody else's hand
+  const counts: Record<number, number> = { [BONEYARD]: state.boneyard.length };
+  state.players.forEach(p => { counts[p.id] = p.hand.length; });
+  if (deal.type === 'deal' && deal.tile) counts[deal.starter]++;
+  state.events.forEach(e => {
+    if (e.type === 'play') counts[e.player]++;
+    if (e.type === 'draw') {
+      counts[e.player]--;
+      counts[BONEYARD]++;
+    }
+  });
+
+  let inf = createInference(viewerId, (deal.type === 'setup' ? deal.position.hands : deal.hands)[viewerId], counts);
+  if (deal.type === 'setup') {
+    inf = fromPosition(inf, deal.position);
+  } else if (deal.tile) {
+    // A forced opening tile counts as a play by the starter (a chosen lead is a normal play event)
+    inf = updateInference(inf, { type: 'play', player: deal.starter, tile: deal.tile, side: 'left' });
+    if (deal.starter === viewerId) inf = markPlayedByViewer(inf, deal.tile);
+  }
+
+  state.events.forEach(e => {
+    if (e.type === 'play' && e.player === viewerId) inf = markPlayedByViewer(inf, e.tile);
+    else inf = updateInference(inf, e);
+  });
+  return inf;
+};
+
+// A set-up position starts with tiles already on the board and knocks already on record
+const fromPosition = (inf: InferenceState, position: Position): InferenceState => {
+  const onBoard = position.board.map(tileIndex);
+  const voids = Object.fromEntries(Object.entries(inf.voids).map(([id, v]) => [id, [...new Set([...v, ...(position.passHistory[Number(id)] ?? [])])]]));
+  const possible = Object.fromEntries(inf.holders.map(h => [h, inf.possible[h].map((p, i) =>
+    p && !onBoard.includes(i) && !(voids[h] ?? []).some(n => DECK[i].includes(n)))]));
+  return propagate({ ...inf, possible, voids, played: inf.played.map((p, i) => p || onBoard.includes(i)) });
+};
+
+const markPlayedByViewer = (inf: InferenceState, tile: Tile): InferenceState => {
+  const i = tileIndex(tile);
+  return { ...inf, own: inf.own.map((o, j) => o && j !== i), played: inf.played.map((p, j) => p || j === i) };
+};
+
+// Who could hold this tile? Empty if it's played or in the viewer's hand.
+export const getPossibleHolders = (inf: InferenceState, tile: Tile): number[] => {
+  const i = tileIndex(tile);
+  return inf.holders.filter(h => inf.possible[h][i]);
+};
+
+// Tiles each holder can have; useful for dealing plausible worlds in the search
+export const getPossibleTiles = (inf: InferenceState, holder: number): Tile[] =>
+  DECK.filter((_, i) => inf.possible[holder][i]);
+
+export interface SuitSummary {
+  suit: number;
+  played: number; // Tiles of this number on the board
+  own: number; // In the viewer's hand
+  unseen: number; // Still hidden somewhere
+  inPlay: number; // Hidden tiles that another player (not the boneyard) could still hold
+  exhausted: boolean; // Nobody else can play this number any more
+}
+
+// Per-number counts. With double-nine every number appears on 10 tiles.
+export const getSuitSummaries = (inf: InferenceState): SuitSummary[] =>
+  Array.from({ length: 10 }, (_, suit) => {
+    let played = 0, own = 0, unseen = 0, inPlay = 0;
+    DECK.forEach((t, i) => {
+      if (t[0] !== suit && t[1] !== suit) return;
+      if (inf.played[i]) played++;
+      else if (inf.own[i]) own++;
+      else {
+        unseen++;
+        if (inf.holders.some(h => h !== BONEYARD && inf.possible[h][i])) inPlay++;
+      }
+    });
+    return { suit, played, own, unseen, inPlay, exhausted: inPlay === 0 };
+  });
@@ -0,0 +1,55 @@
+import { GameState, MatchState } from '../types';
+import { getNextPlayerIndex } from './engine';
+import { getHandPips } from './rules';
+
+// Match play: rounds are scored into running team totals until one team reaches the target.
+// In individual play every player is their own team.
+
+export const TARGET_SCORE_OPTIONS = [100, 150, 200];
+export const DEFAULT_TARGET_SCORE = 100;
+
+export const createMatch = (targetScore: number = DEFAULT_TARGET_SCORE, teamCount: number = 2): MatchState => ({
+  targetScore,
+  scores: Array(teamCount).fill(0),
+  rounds: [],
+  winner: null,
+  nextLeader: null
+});
+
+// Who leads the next hand. 'winner': the player who dominoed, or for a tranque the lowest hand
+// on the winning team. 'rotation' (and tied rounds): the seat after this round's leader.
+export const getNextLeader = (game: GameState): number => {
+  const deal = game.events.find(e => e.type === 'deal');
+  const leader = deal?.type === 'deal' ? deal.starter : 0;
+  const team = game.winner?.team ?? null;
+  if (game.rules.salida === 'rotation' || team === null) return getNextPlayerIndex(leader, game.players.length);
+
+  const winners = game.players.filter(p => p.team === team);
+  const domino = winners.find(p => p.hand.length === 0);
+  if (domino) return domino.id;
+  return winners.reduce((best, p) => (getHandPips(p) < getHandPips(best) ? p : best)).id;
+};
+
+// Adds a finished round to the match. Only states that are actually 'round_over' count, but nothing
+// here tells one finished round from the next: calling it twice for the same round records it twice.
+export const recordRound = (match: MatchState, game: GameState): MatchState => {
+  if (game.status !== 'round_over' || !game.winner || match.winner !== null) return match;
+
+  const { team, reason, points } = game.winner;
+  const scores = [...match.scores];
+  if (team !== null && team < scores.length) scores[team] += points;
+
+  // Only one team can score per round, so at most one can cross the line
+  const leader = scores.findIndex(s => s >= match.targetScore);
+  const winner = leader === -1 ? null : leader;
+
+  return {
+    ...match,
+    scores,
+    rounds: [...match.rounds, { round: match.rounds.length + 1, team, reason, points, undos: game.undoCount }],
+    winner,
+    nextLeader: getNextLeader(game)
+  };
+};
+
+export const isMatchOver = (match: MatchState): boolean => match.winner !== null;
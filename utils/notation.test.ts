@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { GameOptions, GameState, Position } from '../types';
+import { reduce, initialGameState, getRoundEndAction, getStuckAction, DEFAULT_OPTIONS } from './engine';
+import { dealFromSeed, getValidMoves } from './gameLogic';
+import { RULE_PRESETS } from './rules';
+import { playOut } from './search';
+import { getSeatView } from './strategies';
+import { formatNotation, parseNotation, NotationError } from './notation';
+
+const TABLES: GameOptions[] = [
+  DEFAULT_OPTIONS,
+  { playerCount: 4, teams: true, drawMode: 'draw' },
+  { playerCount: 3, teams: false, drawMode: 'draw' },
+  { playerCount: 2, teams: false, drawMode: 'pass' }
+];
+
+const playedRound = (seed: number): GameState => {
+  const options = TABLES[seed % TABLES.length];
+  return playOut(reduce(initialGameState, {
+    type: 'deal',
+    deck: dealFromSeed(seed),
+    seed: seed % 5 === 0 ? undefined : seed,
+    rules: seed % 7 === 0 ? { ...RULE_PRESETS[1], id: 'custom', name: 'Custom', roundToTens: false } : RULE_PRESETS[seed % RULE_PRESETS.length],
+    options,
+    leader: seed % 3 === 0 ? seed % options.playerCount : undefined
+  }));
+};
+
+// Stops a round a few turns in and sets it up again as a position
+const setUpRound = (seed: number): GameState => {
+  let state = reduce(initialGameState, { type: 'deal', deck: dealFromSeed(seed), seed, options: TABLES[seed % TABLES.length] });
+  for (let turn = 0; turn < 6 && !getRoundEndAction(state); turn++) {
+    const player = state.players[state.currentPlayerIndex];
+    const [move] = getValidMoves(player.hand, state.leftEnd, state.rightEnd);
+    state = reduce(state, move ? { type: 'play', playerId: player.id, tile: move.tile, side: move.side } : getStuckAction(state, player.id));
+  }
+  const position: Position = {
+    board: state.board, leftEnd: state.leftEnd, rightEnd: state.rightEnd, hands: state.players.map(p => p.hand),
+    boneyard: state.boneyard, passHistory: state.passHistory, currentPlayer: state.currentPlayerIndex, options: state.options
+  };
+  return playOut(reduce(initialGameState, { type: 'setup', position, rules: state.rules }));
+};
+
+const errorOf = (text: string): NotationError => {
+  try {
+    parseNotation(text);
+  } catch (err) {
+    if (err instanceof NotationError) return err;
+    throw err;
+  }
+  throw new Error('expected a NotationError');
+};
+
+describe('round trip', () => {
+  it('parses formatted rounds back to the same events and text', () => {
+    for (let seed = 1; seed <= 60; seed++) {
+      const done = playedRound(seed);
+      for (const events of [done.events, done.events.slice(0, -1), done.events.slice(0, 1)]) {
+        const text = formatNotation(events);
+        const parsed = parseNotation(text);
+        expect(parsed).toEqual(events);
+        expect(formatNotation(parsed)).toBe(text);
+      }
+    }
+  });
+
+  it('round-trips rounds that start from a set-up position', () => {
+    for (let seed = 200; seed < 220; seed++) {
+      const done = setUpRound(seed);
+      expect(done.events[0].type).toBe('setup');
+      expect(parseNotation(formatNotation(done.events))).toEqual(done.events);
+    }
+  });
+
+  it('keeps the take-back count', () => {
+    const done = playedRound(4);
+    const events = done.events.map(e => (e.type === 'round_end' ? { ...e, undos: 3 } : e));
+    const text = formatNotation(events);
+    expect(text).toContain('[Undos "3"]');
+    expect(parseNotation(text)).toEqual(events);
+  });
+
+  it('keeps seat names with quotes and backslashes', () => {
+    const seats = [{ name: 'Ana "the Wall"', isBot: false }, { name: 'C:\\Ben', isBot: false }, { name: '"', isBot: true }, { name: '\\', isBot: true }];
+    const done = playOut(reduce(initialGameState, { type: 'deal', deck: dealFromSeed(9), seed: 9, seats }));
+    const text = formatNotation(done.events);
+    expect(text).toContain('[Seat0 "human Ana \\"the Wall\\""]');
+    expect(parseNotation(text)).toEqual(done.events);
+  });
+
+  it("won't write a seat's view, which is missing the other hands", () => {
+    expect(() => formatNotation([...getSeatView(playedRound(8), 0).events])).toThrow();
+  });
+});
+
+describe('parse errors', () => {
+  const sample = formatNotation(playedRound(6).events);
+  const lineOf = (pattern: RegExp) => sample.split('\n').findIndex(line => pattern.test(line)) + 1;
+
+  it('points at the line and column of the problem', () => {
+    const err = errorOf(sample.replace(/^\[Rules "[^"]*"\]/m, '[Rules "fancy"]'));
+    expect(err.line).toBe(lineOf(/^\[Rules/));
+    expect(err.column).toBe(9);
+    expect(err.message).toMatch(/^Line \d+, column 9: Unknown rules "fancy"/);
+  });
+
+  it('rejects unknown, repeated and misplaced tags', () => {
+    expect(errorOf(sample.replace('[Rules', '[Foo "x"]\n[Rules')).message).toContain('Unknown tag "Foo"');
+    expect(errorOf(sample.replace(/(\[Table "[^"]*"\])/, '$1\n$1')).message).toContain('appears twice');
+    expect(errorOf(sample.replace(/\[Boneyard "[^"]*"\]\n/, '')).message).toContain('Missing the Boneyard tag');
+  });
+
+  it('rejects tiles dealt twice and broken move numbers', () => {
+    expect(errorOf(sample.replace(/\[Hand0 "(\d-\d)/, (_, tile) => `[Hand0 "${sample.match(/\[Hand1 "(\d-\d)/)![1]}`)).message)
+      .toContain('appears twice');
+    expect(errorOf(sample.replace(' 2. ', ' 3. ')).message).toContain('Expected move number 2');
+  });
+
+  it('replays the moves and explains the illegal ones', () => {
+    expect(errorOf(sample.replace(/ (\d+)\. \d-\d[LR]/, ' $1. pass')).message).toContain("can play, so can't pass");
+    expect(errorOf(sample.replace(/ (\d+)\. (\d-\d)[LR]/, ' $1. $2')).message).toContain('Say which end');
+    expect(errorOf(`${sample} 999. pass`).message).toMatch(/Expected move number|already over/);
+  });
+
+  it('checks the result against the moves', () => {
+    const err = errorOf(sample.replace(/\[Result "(\w+) (\w+) (\d+)"\]/, '[Result "$1 $2 999"]'));
+    expect(err.message).toMatch(/The moves end in ".*", not ".* 999"/);
+  });
+
+  it('wants a real count of take-backs', () => {
+    expect(errorOf(sample.replace('[Result', '[Undos "lots"]\n[Result')).message).toContain('Undos counts take-backs');
+  });
+});
@@ -0,0 +1,418 @@
+import { GameAction, GameEvent, GameOptions, GameState, Position, RuleSet, SeatSetup, Tile } from '../types';
+import { reduce, initialGameState, getRoundEndAction, normalizeOptions, HAND_SIZE, DEFAULT_OPTIONS } from './engine';
+import { areTilesEqual, generateDeck, getValidMoves } from './gameLogic';
+import { DEFAULT_RULES, RULE_PRESETS, getRulePreset } from './rules';
+import { seedToDealCode, parseDealCode } from './random';
+import { validatePosition } from './scenario';
+
+// A compact text form of a round, in the spirit of chess PGN, for pasting into chat and bug reports:
+//
+//   [Table "4 teams pass"]
+//   [Rules "classic"]
+//   [Seed "K3X9A"]
+//   [Hand0 "0-3 1-1 2-9 ..."]      one per seat, as dealt
+//   [Boneyard "0-0 4-6 ..."]        top first
+//   [Opening "9-9"]                 the forced highest double, or [Salida "2"] when a seat leads any tile
+//   [Result "domino 1 37"]          reason, winning team (or "tie"), points
+//
+//   1. 9-8L 2. pass 3. 8-4R 4. draw 5. 4-5R
+//
+// Seats and teams count from 0. A lead onto an empty board has no side. A round that starts from a set-up
+// position (utils/scenario.ts) has Board, Ends, ToPlay and KnockedN tags instead of Seed, Opening and Salida.
+// The parser replays every move through the engine, so text that parses is a legal round, and
+// parseNotation(formatNotation(events)) gives back the same events for any round the engine played.
+
+export class NotationError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+  }
+}
+
+const DECK_SIZE = generateDeck().length;
+const LINE_WIDTH = 80;
+
+interface Tag {
+  value: string;
+  line: number;
+  column: number; // Where the value starts, after the opening quote
+}
+
+interface Token {
+  text: string;
+  line: number;
+  column: number;
+}
+
+// Tags in the order they're written; anything else is rejected
+const TAG_ORDER = ['Table', 'Rules', 'Seed', 'Seat0', 'Seat1', 'Seat2', 'Seat3', 'Board', 'Ends', 'Hand0', 'Hand1', 'Hand2', 'Hand3',
+  'Boneyard', 'Knocked0', 'Knocked1', 'Knocked2', 'Knocked3', 'ToPlay', 'Opening', 'Salida', 'Undos', 'Result'];
+
+// Seat names come from players, so quotes and backslashes in tag values are escaped with a backslash
+const escapeValue = (value: string) => value.replace(/["\\]/g, '\\$&');
+const unescapeValue = (value: string) => value.replace(/\\(.)/g, '$1');
+
+const formatTile = ([a, b]: Tile) => `${a}-${b}`;
+const formatTiles = (tiles: Tile[]) => tiles.map(formatTile).join(' ');
+const formatTable = ({ playerCount, teams, drawMode }: GameOptions) => `${playerCount} ${teams ? 'teams' : 'solo'} ${drawMode}`;
+
+const formatRules = (rules: RuleSet): string => {
+  const preset = getRulePreset(rules.id);
+  if (preset && RULE_FIELDS.every(f => preset[f] === rules[f])) return rules.id;
+  return [rules.id, ...RULE_FIELDS.map(f => `${RULE_KEYS[f]}=${rules[f] === true ? 'yes' : rules[f] === false ? 'no' : rules[f]}`)].join(' ');
+};
+
+const RULE_FIELDS = ['scoring', 'tranque', 'tranqueTie', 'roundToTens', 'salida'] as const;
+const RULE_KEYS: Record<typeof RULE_FIELDS[number], string> = { scoring: 'scoring', tranque: 'tranque', tranqueTie: 'tie', roundToTens: 'tens', salida: 'salida' };
+const RULE_VALUES: Record<typeof RULE_FIELDS[number], string[]> = {
+  scoring: ['losers', 'all_hands'],
+  tranque: ['lowest_individual', 'team_total'],
+  tranqueTie: ['no_points', 'locker_team'],
+  roundToTens: ['yes', 'no'],
+  salida: ['winner', 'rotation']
+};
+
+const formatMove = (event: GameEvent, emptyBoard: boolean): string | null => {
+  switch (event.type) {
+    case 'play':
+      return emptyBoard ? formatTile(event.tile) : `${formatTile(event.tile)}${event.side === 'left' ? 'L' : 'R'}`;
+    case 'pass':
+      return 'pass';
+    case 'draw':
+      return 'draw';
+    default:
+      return null;
+  }
+};
+
+// Writes a round's events (a full record, not a seat view) as notation
+export const formatNotation = (events: GameEvent[]): string => {
+  const start = events[0];
+  if (!start || (start.type !== 'deal' && start.type !== 'setup')) throw new Error('A record starts with a deal or a set-up position.');
+  const tags: [string, string][] = [];
+
+  if (start.type === 'deal') {
+    if (start.hands.some(h => h.length === 0)) throw new Error("Notation needs every hand, not one seat's view.");
+    tags.push(['Table', formatTable(start.options ?? DEFAULT_OPTIONS)], ['Rules', formatRules(start.rules ?? DEFAULT_RULES)]);
+    if (start.seed !== null) tags.push(['Seed', seedToDealCode(start.seed)]);
+    start.seats?.forEach((seat, id) => tags.push([`Seat${id}`, `${seat.isBot ? 'bot' : 'human'} ${seat.name}`]));
+    start.hands.forEach((hand, id) => tags.push([`Hand${id}`, formatTiles(hand)]));
+    tags.push(['Boneyard', formatTiles(start.boneyard)]);
+    tags.push(start.tile ? ['Opening', formatTile(start.tile)] : ['Salida', String(start.starter)]);
+  } else {
+    const { position } = start;
+    tags.push(['Table', formatTable(position.options)], ['Rules', formatRules(start.rules ?? DEFAULT_RULES)]);
+    tags.push(['Board', formatTiles(position.board)]);
+    if (position.leftEnd !== null) tags.push(['Ends', `${position.leftEnd} ${position.rightEnd}`]);
+    position.hands.forEach((hand, id) => tags.push([`Hand${id}`, formatTiles(hand)]));
+    tags.push(['Boneyard', formatTiles(position.boneyard)]);
+    Object.entries(position.passHistory).forEach(([id, knocked]) => tags.push([`Knocked${id}`, knocked.join(' ')]));
+    tags.push(['ToPlay', String(position.currentPlayer)]);
+  }
+
+  const end = events.find(e => e.type === 'round_end');
+  if (end?.type === 'round_end') {
+    if (end.undos) tags.push(['Undos', String(end.undos)]);
+    tags.push(['Result', `${end.reason} ${end.team === null ? 'tie' : end.team} ${end.points}`]);
+  }
+
+  // Moves, wrapped like PGN movetext
+  let emptyBoard = start.type === 'deal' ? start.tile === null : start.position.board.length === 0;
+  const moves: string[] = [];
+  events.slice(1).forEach(event => {
+    const move = formatMove(event, emptyBoard);
+    if (!move) return;
+    moves.push(`${moves.length + 1}. ${move}`);
+    if (event.type === 'play') emptyBoard = false;
+  });
+  const lines: string[] = [];
+  moves.forEach(move => {
+    const last = lines.length - 1;
+    if (last >= 0 && lines[last].length + 1 + move.length <= LINE_WIDTH) lines[last] += ` ${move}`;
+    else lines.push(move);
+  });
+
+  const header = tags.map(([name, value]) => `[${name} "${escapeValue(value)}"]`).join('\n');
+  return lines.length > 0 ? `${header}\n\n${lines.join('\n')}` : header;
+};
+
+// Splits a space-separated tag value into words, keeping their columns for error messages
+const words = (tag: Tag): Token[] =>
+  [...tag.value.matchAll(/\S+/g)].map(m => ({ text: m[0], line: tag.line, column: tag.column + m.index! }));
+
+const parseTile = (token: Token): Tile => {
+  const match = /^(\d)-(\d)$/.exec(token.text);
+  if (!match) throw new NotationError(`"${token.text}" is not a tile; write tiles like 3-7.`, token.line, token.column);
+  return [Number(match[1]), Number(match[2])];
+};
+
+const parseNumber = (token: Token, max: number, what: string): number => {
+  if (!/^\d+$/.test(token.text) || Number(token.text) > max) {
+    throw new NotationError(`"${token.text}" is not a ${what} (0 to ${max}).`, token.line, token.column);
+  }
+  return Number(token.text);
+};
+
+const parseTable = (tag: Tag): GameOptions => {
+  const [count, teams, draw, extra] = words(tag);
+  if (!count || !teams || !draw || extra || !/^[234]$/.test(count.text) || !['teams', 'solo'].includes(teams.text) || !['pass', 'draw'].includes(draw.text)) {
+    throw new NotationError('Table is written like "4 teams pass" or "3 solo draw".', tag.line, tag.column);
+  }
+  if (teams.text === 'teams' && count.text !== '4') throw new NotationError('Only a 4-player table plays in teams.', teams.line, teams.column);
+  return { playerCount: Number(count.text) as GameOptions['playerCount'], teams: teams.text === 'teams', drawMode: draw.text as GameOptions['drawMode'] };
+};
+
+const parseRules = (tag: Tag): RuleSet => {
+  const [id, ...settings] = words(tag);
+  if (!id) throw new NotationError('Rules needs a preset name or a custom rule set.', tag.line, tag.column);
+  const preset = getRulePreset(id.text);
+  if (preset && settings.length === 0) return preset;
+  if (settings.length === 0) {
+    throw new NotationError(`Unknown rules "${id.text}"; use one of ${RULE_PRESETS.map(r => r.id).join(', ')} or spell the rules out.`, id.line, id.column);
+  }
+
+  const values: Partial<Record<typeof RULE_FIELDS[number], string>> = {};
+  settings.forEach(token => {
+    const [key, value] = token.text.split('=');
+    const field = RULE_FIELDS.find(f => RULE_KEYS[f] === key);
+    if (!field || values[field] !== undefined || !RULE_VALUES[field].includes(value)) {
+      throw new NotationError(`"${token.text}" is not a rule setting.`, token.line, token.column);
+    }
+    values[field] = value;
+  });
+  const missing = RULE_FIELDS.find(f => values[f] === undefined);
+  if (missing) throw new NotationError(`Rules are missing ${RULE_KEYS[missing]}=...`, tag.line, tag.column);
+  return {
+    id: id.text,
+    name: preset?.name ?? 'Custom',
+    scoring: values.scoring as RuleSet['scoring'],
+    tranque: values.tranque as RuleSet['tranque'],
+    tranqueTie: values.tranqueTie as RuleSet['tranqueTie'],
+    roundToTens: values.roundToTens === 'yes',
+    salida: values.salida as RuleSet['salida']
+  };
+};
+
+// Header tags first, then the numbered moves
+const readText = (text: string): { tags: Map<string, Tag>; moves: Token[]; firstMoveLine: number } => {
+  const tags = new Map<string, Tag>();
+  const moves: Token[] = [];
+  let inMoves = false;
+  let lastOrder = -1;
+  let firstMoveLine = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const indent = raw.length - raw.trimStart().length;
+    const content = raw.trim();
+    if (!content) return;
+
+    if (content.startsWith('[')) {
+      if (inMoves) throw new NotationError('Tags go before the moves.', line, indent + 1);
+      const match = /^\[([A-Za-z0-9]+) "((?:[^"\\]|\\.)*)"\]$/.exec(content);
+      if (!match) throw new NotationError('Tags are written like [Name "value"].', line, indent + 1);
+      const name = match[1];
+      const order = TAG_ORDER.indexOf(name);
+      if (order === -1) throw new NotationError(`Unknown tag "${name}".`, line, indent + 2);
+      if (tags.has(name)) throw new NotationError(`The ${name} tag appears twice.`, line, indent + 2);
+      if (order < lastOrder) throw new NotationError(`The ${name} tag is out of order; see the notation format.`, line, indent + 2);
+      lastOrder = order;
+      tags.set(name, { value: unescapeValue(match[2]), line, column: indent + name.length + 4 });
+      return;
+    }
+
+    if (!inMoves) firstMoveLine = line;
+    inMoves = true;
+    for (const m of raw.matchAll(/\S+/g)) {
+      // "12.3-7R" and "12. 3-7R" are both fine
+      const numbered = /^(\d+\.)(.+)$/.exec(m[0]);
+      if (numbered) {
+        moves.push({ text: numbered[1], line, column: m.index! + 1 });
+        moves.push({ text: numbered[2], line, column: m.index! + 1 + numbered[1].length });
+      } else {
+        moves.push({ text: m[0], line, column: m.index! + 1 });
+      }
+    }
+  });
+
+  return { tags, moves, firstMoveLine };
+};
+
+const tilesOf = (tag: Tag) => words(tag).map(parseTile);
+
+// Why a move was turned down, in the words of the game
+const explainRejection = (state: GameState, action: GameAction): string => {
+  const player = state.players[state.currentPlayerIndex];
+  const playable = getValidMoves(player.hand, state.leftEnd, state.rightEnd).length > 0;
+  switch (action.type) {
+    case 'play': {
+      if (!player.hand.some(t => areTilesEqual(t, action.tile))) return `${player.name} doesn't have ${formatTile(action.tile)}.`;
+      const end = action.side === 'left' ? state.leftEnd : state.rightEnd;
+      return `${formatTile(action.tile)} doesn't fit on the ${action.side} (the open end is ${end}).`;
+    }
+    case 'pass':
+      if (playable) return `${player.name} can play, so can't pass.`;
+      return `${player.name} has to draw while the boneyard has tiles.`;
+    case 'draw':
+      if (state.options.drawMode === 'pass') return 'This table knocks instead of drawing.';
+      if (playable) return `${player.name} can play, so can't draw.`;
+      return 'The boneyard is empty.';
+    default:
+      return 'That move is not legal here.';
+  }
+};
+
+// Strict parser: anything it can't make sense of, or that the engine wouldn't allow, throws a NotationError
+export const parseNotation = (text: string): GameEvent[] => {
+  const { tags, moves, firstMoveLine } = readText(text);
+  const tag = (name: string): Tag | undefined => tags.get(name);
+  const requireTag = (name: string): Tag => {
+    const found = tags.get(name);
+    if (!found) throw new NotationError(`Missing the ${name} tag.`, firstMoveLine || 1, 1);
+    return found;
+  };
+
+  const options = tag('Table') ? parseTable(tag('Table')!) : DEFAULT_OPTIONS;
+  const rules = tag('Rules') ? parseRules(tag('Rules')!) : DEFAULT_RULES;
+  const seats = [0, 1, 2, 3].filter(id => id < options.playerCount);
+  const hands = seats.map(id => tilesOf(requireTag(`Hand${id}`)));
+  const boneyard = tilesOf(requireTag('Boneyard'));
+  // Seats past the table, and tags that belong to the other way of starting a round
+  const setup = tags.has('Board');
+  tags.forEach((found, name) => {
+    const seat = /\d$/.exec(name);
+    const column = found.column - name.length - 2;
+    if (seat && Number(seat[0]) >= options.playerCount) {
+      throw new NotationError(`A ${options.playerCount}-player table has no seat ${seat[0]}.`, found.line, column);
+    }
+    if (setup ? /^(Seed|Seat\d|Opening|Salida)$/.test(name) : /^(Ends|Knocked\d|ToPlay)$/.test(name)) {
+      throw new NotationError(`${name} only goes with ${setup ? 'a dealt round' : 'a set-up Board'}.`, found.line, column);
+    }
+  });
+
+  let state: GameState;
+  let emptyBoard: boolean;
+  if (setup) {
+    // A set-up position
+    const boardTag = tag('Board')!;
+    const ends = tag('Ends') ? words(tag('Ends')!).map(t => parseNumber(t, 9, 'pip count')) : [];
+    if (tag('Ends') && ends.length !== 2) throw new NotationError('Ends is written like "3 7", left then right.', tag('Ends')!.line, tag('Ends')!.column);
+    const passHistory: Position['passHistory'] = {};
+    seats.forEach(id => {
+      const knocked = tag(`Knocked${id}`);
+      if (knocked) passHistory[id] = words(knocked).map(t => parseNumber(t, 9, 'pip count'));
+    });
+    const toPlay = requireTag('ToPlay');
+    const position: Position = {
+      board: tilesOf(boardTag),
+      leftEnd: ends.length ? ends[0] : null,
+      rightEnd: ends.length ? ends[1] : null,
+      hands,
+      boneyard,
+      passHistory,
+      currentPlayer: parseNumber({ text: toPlay.value, line: toPlay.line, column: toPlay.column }, options.playerCount - 1, 'seat'),
+      options: normalizeOptions(options)
+    };
+    const problems = validatePosition(position);
+    if (problems.length > 0) throw new NotationError(problems[0], boardTag.line, boardTag.column);
+    state = reduce(initialGameState, { type: 'setup', position, rules });
+    emptyBoard = position.board.length === 0;
+  } else {
+    const seedTag = tag('Seed');
+    const seed = seedTag ? parseDealCode(seedTag.value) : null;
+    if (seedTag && seed === null) throw new NotationError(`"${seedTag.value}" is not a deal code.`, seedTag.line, seedTag.column);
+
+    const seatSetup: SeatSetup[] | undefined = tag('Seat0') ? seats.map(id => {
+      const seatTag = requireTag(`Seat${id}`);
+      const match = /^(human|bot) (.+)$/.exec(seatTag.value);
+      if (!match) throw new NotationError('Seats are written like "human Player 1" or "bot Bot 1 (Left)".', seatTag.line, seatTag.column);
+      return { name: match[2], isBot: match[1] === 'bot' };
+    }) : undefined;
+
+    seats.forEach(id => {
+      const handTag = tag(`Hand${id}`)!;
+      if (hands[id].length !== HAND_SIZE) throw new NotationError(`A dealt hand has ${HAND_SIZE} tiles, not ${hands[id].length}.`, handTag.line, handTag.column);
+    });
+    // Every tile once, and all of them
+    const seen: Tile[] = [];
+    [...seats.map(id => tag(`Hand${id}`)!), tag('Boneyard')!].forEach(t => words(t).forEach(word => {
+      const tile = parseTile(word);
+      if (seen.some(s => areTilesEqual(s, tile))) throw new NotationError(`${word.text} appears twice.`, word.line, word.column);
+      seen.push(tile);
+    }));
+    if (seen.length !== DECK_SIZE) {
+      throw new NotationError(`The hands and boneyard hold ${seen.length} tiles; a double-nine set has ${DECK_SIZE}.`, tag('Boneyard')!.line, tag('Boneyard')!.column);
+    }
+
+    const opening = tag('Opening');
+    const salida = tag('Salida');
+    if (!opening === !salida) throw new NotationError('A deal needs either an Opening or a Salida tag.', (opening ?? salida ?? tag('Boneyard')!).line, 1);
+    const leader = salida ? parseNumber({ text: salida.value, line: salida.line, column: salida.column }, options.playerCount - 1, 'seat') : undefined;
+
+    state = reduce(initialGameState, {
+      type: 'deal', deck: [...hands.flat(), ...boneyard], seed: seed ?? undefined, rules, options, leader, ...(seatSetup && { seats: seatSetup })
+    });
+    const deal = state.events[0];
+    if (opening && deal.type === 'deal') {
+      const written = parseTile({ text: opening.value, line: opening.line, column: opening.column });
+      if (!deal.tile || !areTilesEqual(written, deal.tile)) {
+        throw new NotationError(`The highest double in these hands is ${deal.tile ? formatTile(deal.tile) : 'missing'}, so it opens.`, opening.line, opening.column);
+      }
+    }
+    emptyBoard = !opening;
+  }
+
+  // Moves, each numbered in turn
+  for (let i = 0; i < moves.length; i += 2) {
+    const number = moves[i];
+    const expected = i / 2 + 1;
+    if (number.text !== `${expected}.`) throw new NotationError(`Expected move number ${expected}.`, number.line, number.column);
+    const move = moves[i + 1];
+    if (!move) throw new NotationError(`Move ${expected} is missing.`, number.line, number.column + number.text.length);
+    if (getRoundEndAction(state)) throw new NotationError('The round is already over.', move.line, move.column);
+
+    const playerId = state.currentPlayerIndex;
+    let action: GameAction;
+    if (move.text === 'pass') action = { type: 'pass', playerId };
+    else if (move.text === 'draw') action = { type: 'draw', playerId };
+    else {
+      const match = /^(\d-\d)([LR]?)$/.exec(move.text);
+      if (!match) throw new NotationError(`"${move.text}" is not a move; write 3-7L, 3-7R, pass or draw.`, move.line, move.column);
+      if (emptyBoard && match[2]) throw new NotationError('The lead goes on an empty board, so it has no side.', move.line, move.column + 3);
+      if (!emptyBoard && !match[2]) throw new NotationError(`Say which end: ${match[1]}L or ${match[1]}R.`, move.line, move.column + 3);
+      const written = parseTile({ ...move, text: match[1] });
+      // The hand's own copy, so 7-3 and 3-7 are the same tile
+      const tile = state.players[playerId].hand.find(t => areTilesEqual(t, written)) ?? written;
+      action = { type: 'play', playerId, tile, side: match[2] === 'R' ? 'right' : 'left' };
+    }
+
+    const next = reduce(state, action);
+    if (next === state) throw new NotationError(explainRejection(state, action), move.line, move.column);
+    if (action.type === 'play') emptyBoard = false;
+    state = next;
+  }
+
+  const resultTag = tag('Result');
+  if (resultTag) {
+    const [reason, team, points, extra] = words(resultTag);
+    if (!reason || !team || !points || extra || !['domino', 'tranque'].includes(reason.text) || !/^(\d|tie)$/.test(team.text) || !/^\d+$/.test(points.text)) {
+      throw new NotationError('Result is written like "domino 1 37" or "tranque tie 0".', resultTag.line, resultTag.column);
+    }
+    const end = getRoundEndAction(state);
+    if (!end || end.type !== 'end_round') throw new NotationError("The round isn't over after the last move.", resultTag.line, resultTag.column);
+    const finished = reduce(state, end);
+    const { winner } = finished;
+    const written = `${reason.text} ${team.text} ${points.text}`;
+    const actual = `${winner!.reason} ${winner!.team === null ? 'tie' : winner!.team} ${winner!.points}`;
+    if (written !== actual) throw new NotationError(`The moves end in "${actual}", not "${written}".`, resultTag.line, resultTag.column);
+
+    const undosTag = tag('Undos');
+    // Written only when there were some, so "0" or "007" would never come back out the same
+    if (undosTag && !/^[1-9]\d*$/.test(undosTag.value)) {
+      throw new NotationError(`Undos counts take-backs, like "2"; "${undosTag.value}" isn't one. Leave the tag out if there were none.`, undosTag.line, undosTag.column);
+    }
+    const undos = undosTag ? Number(undosTag.value) : 0;
+    return finished.events.map(e => (e.type === 'round_end' ? { ...e, undos } : e));
+  }
+  if (tag('Undos')) throw new NotationError('Undos only goes with a Result.', tag('Undos')!.line, 1);
+  return state.events;
+};
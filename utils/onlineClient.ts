@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ClientMessage, RoomView, ServerMessage } from '../types';
+import { isRecord } from './guards';
+
+// Browser side of online play. Keeps one socket to the local server (server/index.ts),
+// reconnects on its own, and rejoins the same seat with the token the server handed out.
+
+export const DEFAULT_SERVER_URL = `ws://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:8787`;
+
+const RECONNECT_MS = 1500;
+// Per tab, so several tabs on one machine are different players
+const SESSION_KEY = 'domino-online-session';
+
+interface Session {
+  code: string;
+  token: string;
+}
+
+const loadSession = (): Session | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+  return isRecord(data) && typeof data.code === 'string' && typeof data.token === 'string' ? { code: data.code, token: data.token } : null;
+};
+
+const saveSession = (session: Session | null) => {
+  if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else sessionStorage.removeItem(SESSION_KEY);
+};
+
+const isSeatIndex = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Shape only: the server is ours, this just keeps a mismatched or garbled message from crashing the table
+const isRoomView = (value: unknown): value is RoomView =>
+  isRecord(value) && typeof value.code === 'string' && Array.isArray(value.seats) &&
+  (value.hostSeat === null || isSeatIndex(value.hostSeat)) && isSeatIndex(value.yourSeat) &&
+  isRecord(value.options) && isRecord(value.rules) && isRecord(value.match) &&
+  (value.game === null || (isRecord(value.game) && Array.isArray(value.game.events) && Array.isArray(value.game.players)));
+
+const parseServerMessage = (raw: unknown): ServerMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(String(raw));
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'welcome':
+      return typeof data.code === 'string' && typeof data.token === 'string' ? { type: 'welcome', code: data.code, token: data.token } : null;
+    case 'room':
+      return isRoomView(data.room) ? { type: 'room', room: data.room } : null;
+    case 'error':
+      return typeof data.message === 'string' ? { type: 'error', message: data.message } : null;
+    default:
+      return null;
+  }
+};
+
+export interface OnlineRoom {
+  active: boolean; // The online panel is open (connected or trying to be)
+  connected: boolean;
+  room: RoomView | null;
+  error: string | null;
+  open: () => void;
+  send: (message: ClientMessage) => void;
+  leave: () => void;
+}
+
+export const useOnlineRoom = (url: string = DEFAULT_SERVER_URL): OnlineRoom => {
+  const [active, setActive] = useState(() => loadSession() !== null);
+  const [connected, setConnected] = useState(false);
+  const [room, setRoom] = useState<RoomView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    let closed = false;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        setConnected(true);
+        setError(null);
+        const session = loadSession();
+        if (session) socket.send(JSON.stringify({ type: 'rejoin', ...session }));
+      };
+      socket.onmessage = e => {
+        const message = parseServerMessage(e.data);
+        if (!message) setError('The server sent something this version of the game cannot read.');
+        else if (message.type === 'welcome') saveSession({ code: message.code, token: message.token });
+        else if (message.type === 'room') setRoom(message.room);
+        else setError(message.message);
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        setError(`Can't reach the server at ${url}. Retrying...`);
+        retry = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [active, url]);
+
+  // A stale session (server restarted, room expired) shouldn't keep us stuck on a dead code
+  useEffect(() => {
+    if (error?.startsWith('No room') || error?.startsWith('You are not seated')) {
+      saveSession(null);
+      setRoom(null);
+    }
+  }, [error]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) socketRef.current.send(JSON.stringify(message));
+  }, []);
+
+  const leave = useCallback(() => {
+    send({ type: 'leave' });
+    saveSession(null);
+    setRoom(null);
+    setError(null);
+    setActive(false);
+  }, [send]);
+
+  return { active, connected, room, error, open: () => setActive(true), send, leave };
+};
@@ -0,0 +1,28 @@
+// Seedable PRNG so deals can be replayed. A seed is an unsigned 32-bit integer;
+// the deal code is that seed written in base 36 (at most 7 characters).
+
+export type Rng = () => number; // Same contract as Math.random: [0, 1)
+
+// mulberry32 - tiny, fast and good enough for shuffling 55 tiles
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const seedToDealCode = (seed: number): string => (seed >>> 0).toString(36).toUpperCase();
+
+// Returns null for anything that is not a valid code, so the UI can show an error
+export const parseDealCode = (code: string): number | null => {
+  const clean = code.trim().toUpperCase();
+  if (!/^[0-9A-Z]{1,7}$/.test(clean)) return null;
+  const seed = parseInt(clean, 36);
+  return seed <= 0xFFFFFFFF ? seed : null;
+};
@@ -0,0 +1,133 @@
+import { GameState, GameEvent, GameAction } from '../types';
+import { reduce, initialGameState, DEFAULT_OPTIONS } from './engine';
+import { DEFAULT_RULES } from './rules';
+import { isPositionShape, validatePosition } from './scenario';
+import { isRecord, isPip, isTile, isMove, oneOf } from './guards';
+
+// Export/import of finished rounds, and rebuilding every intermediate state for the replay viewer.
+
+export const ROUND_RECORD_VERSION = 1;
+
+export interface RoundRecord {
+  version: number;
+  exportedAt: string; // ISO timestamp
+  players: { id: number; name: string; team: number }[];
+  events: GameEvent[];
+}
+
+export const exportRound = (state: GameState): RoundRecord => ({
+  version: ROUND_RECORD_VERSION,
+  exportedAt: new Date().toISOString(),
+  players: state.players.map(({ id, name, team }) => ({ id, name, team })),
+  events: state.events
+});
+
+export const roundRecordFileName = (state: GameState): string =>
+  `domino-round-${state.seed !== null ? state.seed.toString(36).toUpperCase() : Date.now()}.json`;
+
+// Maps a recorded event back onto the engine action that produced it
+export const eventToAction = (event: GameEvent): GameAction => {
+  switch (event.type) {
+    case 'deal':
+      return {
+        type: 'deal',
+        deck: [...event.hands.flat(), ...event.boneyard],
+        seed: event.seed ?? undefined,
+        rules: event.rules ?? DEFAULT_RULES,
+        options: event.options ?? DEFAULT_OPTIONS,
+        seats: event.seats,
+        leader: event.tile === null ? event.starter : undefined
+      };
+    case 'setup':
+      return { type: 'setup', position: event.position, rules: event.rules ?? DEFAULT_RULES };
+    case 'play':
+      return { type: 'play', playerId: event.player, tile: event.tile, side: event.side };
+    case 'pass':
+      return { type: 'pass', playerId: event.player };
+    case 'draw':
+      return { type: 'draw', playerId: event.player };
+    case 'round_end':
+      return { type: 'end_round', reason: event.reason, team: event.team };
+  }
+};
+
+// Runs the events through the engine and returns the state after each one.
+// Throws if the record is not a legal game, so a hand-edited file can't show an impossible board.
+export const buildReplayStates = (events: GameEvent[]): GameState[] => {
+  const states: GameState[] = [];
+  let state = initialGameState;
+
+  events.forEach((event, i) => {
+    if (event.type === 'setup') {
+      const [problem] = validatePosition(event.position);
+      if (problem) throw new Error(`Event ${i + 1} (setup): ${problem}`);
+    }
+    const next = reduce(state, eventToAction(event));
+    if (next === state) {
+      throw new Error(`Event ${i + 1} (${event.type}) is not legal at that point in the round.`);
+    }
+    state = next;
+    states.push(state);
+  });
+
+  return states;
+};
+
+const isPlayerInfo = (value: unknown): value is RoundRecord['players'][number] =>
+  isRecord(value) && Number.isInteger(value.id) && typeof value.name === 'string' && Number.isInteger(value.team);
+
+const isEvent = (value: unknown): value is GameEvent => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'deal':
+      return Array.isArray(value.hands) && value.hands.every((h: unknown) => Array.isArray(h) && h.every(isTile)) &&
+        Array.isArray(value.boneyard) && value.boneyard.every(isTile) &&
+        Number.isInteger(value.starter) && (value.tile === null || isTile(value.tile));
+    case 'setup':
+      return isPositionShape(value.position);
+    case 'play':
+      return Number.isInteger(value.player) && isMove(value);
+    case 'pass':
+      return Number.isInteger(value.player) && Array.isArray(value.ends) && value.ends.length === 2 && value.ends.every(isPip);
+    case 'draw':
+      return Number.isInteger(value.player) && isTile(value.tile);
+    case 'round_end':
+      return (value.reason === 'domino' || value.reason === 'tranque') && (value.team === null || Number.isInteger(value.team)) &&
+        Number.isInteger(value.points) && (value.undos === undefined || Number.isInteger(value.undos));
+    default:
+      return false;
+  }
+};
+
+// Parses and validates an exported JSON file. Throws an Error with a readable message on bad input.
+export const parseRoundRecord = (json: string): RoundRecord => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  return validateRoundRecord(data);
+};
+
+// Same checks for a record that is already parsed, e.g. one kept in the round history
+export const validateRoundRecord = (data: unknown): RoundRecord => {
+  if (!isRecord(data) || data.version !== ROUND_RECORD_VERSION) {
+    throw new Error(`Unsupported round file version (expected ${ROUND_RECORD_VERSION}).`);
+  }
+  const { events } = data;
+  if (!Array.isArray(events) || events.length === 0 || !isRecord(events[0]) || !oneOf(events[0].type, ['deal', 'setup'] as const)) {
+    throw new Error('Round file must start with a deal or setup event.');
+  }
+  const badIndex = events.findIndex(e => !isEvent(e));
+  if (badIndex !== -1) {
+    throw new Error(`Event ${badIndex + 1} is malformed.`);
+  }
+
+  return {
+    version: ROUND_RECORD_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    players: Array.isArray(data.players) ? data.players.filter(isPlayerInfo) : [],
+    events
+  };
+};
@@ -0,0 +1,92 @@
+import { GameEvent, Move } from '../types';
+import { getValidMoves, getResultingEnds, areTilesEqual } from './gameLogic';
+import { buildReplayStates } from './replay';
+import { SearchSettings, MoveEvaluation, evaluateMovesAsync } from './search';
+import { createRng } from './random';
+
+// Post-round review: every tile a seat chose to play is checked against the search from the
+// same position, knowing only what that seat knew. The cost of a move is how many points it
+// was expected to give away compared with the best option.
+
+export type MoveVerdict = 'good' | 'inaccurate' | 'blunder';
+
+export interface ReviewedMove {
+  eventIndex: number; // Position of the play in the round's events
+  played: Move;
+  best: Move;
+  ends: [number | null, number | null]; // Open ends before the move
+  options: number; // Distinct moves that were available; 1 means it was forced
+  cost: number; // Expected points given away versus the best move, 0 if it was the best
+  verdict: MoveVerdict;
+}
+
+export interface RoundReview {
+  moves: ReviewedMove[];
+  costliest: ReviewedMove[]; // Worst first, only moves that cost something
+  totalCost: number;
+  counts: Record<MoveVerdict, number>;
+}
+
+// A bit more than a normal bot thinks, per decision
+export const REVIEW_SETTINGS: SearchSettings = { iterations: 600, timeBudgetMs: 800 };
+
+// Expected points lost before a move counts as a mistake. Below the first line it's sampling noise.
+const INACCURACY_POINTS = 3;
+const BLUNDER_POINTS = 10;
+const COSTLIEST_COUNT = 3;
+
+export const classifyCost = (cost: number): MoveVerdict =>
+  cost >= BLUNDER_POINTS ? 'blunder' : cost >= INACCURACY_POINTS ? 'inaccurate' : 'good';
+
+// Same tile leaving the same ends; left and right are one move when both ends match
+const sameMove = (a: Move, b: Move, leftEnd: number | null, rightEnd: number | null) =>
+  areTilesEqual(a.tile, b.tile) && getResultingEnds(a, leftEnd, rightEnd).join() === getResultingEnds(b, leftEnd, rightEnd).join();
+
+// onProgress gets (done, total) after each decision. Throws if the events aren't a legal round.
+export const reviewRound = async (
+  events: GameEvent[],
+  seat: number,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+  settings: SearchSettings = REVIEW_SETTINGS
+): Promise<RoundReview> => {
+  const states = buildReplayStates(events);
+  const deal = events[0];
+  // Seeded from the deal so reviewing the same round twice gives the same verdicts
+  const rng = createRng(deal.type === 'deal' && deal.seed !== null ? deal.seed : events.length);
+
+  const decisions = events
+    .map((event, i) => ({ event, i }))
+    .filter(({ event, i }) => i > 0 && event.type === 'play' && event.player === seat);
+
+  const moves: ReviewedMove[] = [];
+  for (const { event, i } of decisions) {
+    if (signal?.aborted) break;
+    if (event.type !== 'play') continue;
+    const before = states[i - 1];
+    const played: Move = { tile: event.tile, side: event.side };
+    const ends: [number | null, number | null] = [before.leftEnd, before.rightEnd];
+    const options = getValidMoves(before.players[seat].hand, before.leftEnd, before.rightEnd)
+      .filter((m, j, all) => all.findIndex(o => sameMove(o, m, before.leftEnd, before.rightEnd)) === j).length;
+
+    if (options <= 1) {
+      moves.push({ eventIndex: i, played, best: played, ends, options, cost: 0, verdict: 'good' });
+    } else {
+      const evaluations: MoveEvaluation[] = await evaluateMovesAsync(before, seat, settings, rng, signal);
+      const chosen = evaluations.find(e => sameMove(e.move, played, before.leftEnd, before.rightEnd));
+      const best = evaluations[0];
+      const cost = chosen && best ? Math.max(0, Math.round((best.expected - chosen.expected) * 10) / 10) : 0;
+      moves.push({ eventIndex: i, played, best: cost > 0 ? best.move : played, ends, options, cost, verdict: classifyCost(cost) });
+    }
+    onProgress?.(moves.length, decisions.length);
+  }
+
+  const counts: Record<MoveVerdict, number> = { good: 0, inaccurate: 0, blunder: 0 };
+  moves.forEach(m => counts[m.verdict]++);
+  return {
+    moves,
+    costliest: moves.filter(m => m.cost > 0).sort((a, b) => b.cost - a.cost).slice(0, COSTLIEST_COUNT),
+    totalCost: Math.round(moves.reduce((sum, m) => sum + m.cost, 0) * 10) / 10,
+    counts
+  };
+};
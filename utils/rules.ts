@@ -0,0 +1,75 @@
+import { Player, RuleSet } from '../types';
+import { getTileSum } from './gameLogic';
+
+// Named house-rule presets. 'classic' matches how the app has always scored.
+
+export const RULE_PRESETS: RuleSet[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    scoring: 'losers',
+    tranque: 'lowest_individual',
+    tranqueTie: 'no_points',
+    roundToTens: false,
+    salida: 'winner',
+  },
+  {
+    id: 'all_hands',
+    name: 'All Hands',
+    scoring: 'all_hands',
+    tranque: 'lowest_individual',
+    tranqueTie: 'locker_team',
+    roundToTens: true,
+    salida: 'winner',
+  },
+  {
+    id: 'team_tranque',
+    name: 'Team Tranque',
+    scoring: 'losers',
+    tranque: 'team_total',
+    tranqueTie: 'no_points',
+    roundToTens: false,
+    salida: 'rotation',
+  },
+];
+
+export const DEFAULT_RULES: RuleSet = RULE_PRESETS[0];
+
+export const getRulePreset = (id: string): RuleSet | undefined => RULE_PRESETS.find(r => r.id === id);
+
+// Plain-English one-liners for the settings screen
+export const describeRules = (rules: RuleSet): string[] => [
+  rules.scoring === 'losers' ? "Winner scores the losing team's pips" : 'Winner scores every pip left in all hands',
+  rules.tranque === 'lowest_individual' ? 'Tranque: the single lowest hand wins it for their team' : 'Tranque: the team with the lower combined pips wins',
+  rules.tranqueTie === 'no_points' ? 'Tied tranque: no points' : 'Tied tranque: the team that locked the game wins',
+  rules.roundToTens ? 'Points are rounded to the nearest 10' : 'Points are not rounded',
+  'First hand: the highest double opens',
+  rules.salida === 'winner' ? 'Later hands: the previous winner leads any tile' : 'Later hands: the lead moves to the next seat, any tile',
+];
+
+export const getHandPips = (player: Player): number => player.hand.reduce((sum, t) => sum + getTileSum(t), 0);
+
+// Winning team of a locked board, or null when it's a tie that scores nothing
+export const resolveTranque = (players: Player[], lockerTeam: number | null, rules: RuleSet): number | null => {
+  let best: number[] = [];
+
+  if (rules.tranque === 'team_total') {
+    const teams = [...new Set(players.map(p => p.team))];
+    const totals = teams.map(team => players.filter(p => p.team === team).reduce((sum, p) => sum + getHandPips(p), 0));
+    const min = Math.min(...totals);
+    best = teams.filter((_, i) => totals[i] === min);
+  } else {
+    const min = Math.min(...players.map(getHandPips));
+    best = [...new Set(players.filter(p => getHandPips(p) === min).map(p => p.team))];
+  }
+
+  if (best.length === 1) return best[0];
+  return rules.tranqueTie === 'locker_team' ? lockerTeam : null;
+};
+
+export const calculateRoundPoints = (players: Player[], winningTeam: number | null, rules: RuleSet): number => {
+  if (winningTeam === null) return 0;
+  const counted = rules.scoring === 'all_hands' ? players : players.filter(p => p.team !== winningTeam);
+  const points = counted.reduce((sum, p) => sum + getHandPips(p), 0);
+  return rules.roundToTens ? Math.round(points / 10) * 10 : points;
+};
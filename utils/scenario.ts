@@ -0,0 +1,209 @@
+import { GameOptions, Move, Position, Tile } from '../types';
+import { generateDeck, areTilesEqual, getValidMoves, getResultingEnds } from './gameLogic';
+import { HAND_SIZE, DEFAULT_OPTIONS, createPlayers, normalizeOptions } from './engine';
+import { isRecord, isPip, isTile, isMove, oneOf } from './guards';
+
+// Hand-built positions for drilling endgames and blocked boards, and "find the best play" puzzles
+// made from them. validatePosition is the gatekeeper: the engine trusts whatever gets past it.
+
+export const PUZZLE_VERSION = 1;
+export const DECK_SIZE = 55;
+
+export interface Puzzle {
+  version: number;
+  title: string;
+  createdAt: string; // ISO timestamp
+  position: Position;
+  solution: Move[]; // Plays that count as correct for the player to move. Empty: just a position to play out.
+}
+
+const DECK = generateDeck();
+
+const tileText = ([a, b]: Tile) => `[${a}|${b}]`;
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Fresh editor: nothing dealt yet, every tile in the boneyard
+export const emptyPosition = (options: GameOptions = DEFAULT_OPTIONS): Position => {
+  const table = normalizeOptions(options);
+  return {
+    board: [],
+    leftEnd: null,
+    rightEnd: null,
+    hands: Array.from({ length: table.playerCount }, () => []),
+    boneyard: [...DECK],
+    passHistory: {},
+    currentPlayer: 0,
+    options: table
+  };
+};
+
+// The number showing at the right once the chain is walked from the left end, or where it breaks
+const walkChain = (board: Tile[], leftEnd: number): { end: number } | { broken: number; expected: number } => {
+  let expected = leftEnd;
+  for (let i = 0; i < board.length; i++) {
+    const [a, b] = board[i];
+    if (a !== expected && b !== expected) return { broken: i, expected };
+    expected = a === expected ? b : a;
+  }
+  return { end: expected };
+};
+
+const isEnd = (value: unknown) => value === null || isPip(value);
+
+// Shape only; whether the position could really happen is validatePosition's job
+export const isPositionShape = (value: unknown): value is Position =>
+  isRecord(value) &&
+  Array.isArray(value.board) && value.board.every(isTile) &&
+  isEnd(value.leftEnd) && isEnd(value.rightEnd) &&
+  Array.isArray(value.hands) && value.hands.every((h: unknown) => Array.isArray(h) && h.every(isTile)) &&
+  Array.isArray(value.boneyard) && value.boneyard.every(isTile) &&
+  isRecord(value.passHistory) && Object.values(value.passHistory).every(n => Array.isArray(n) && n.every(isPip)) &&
+  Number.isInteger(value.currentPlayer) &&
+  isRecord(value.options) && oneOf(value.options.playerCount, [2, 3, 4] as const) && oneOf(value.options.drawMode, ['pass', 'draw'] as const);
+
+// Everything that makes the position impossible, in plain words. Empty means it can be played.
+export const validatePosition = (position: Position): string[] => {
+  const errors: string[] = [];
+  const { board, leftEnd, rightEnd, hands, boneyard, passHistory, currentPlayer, options } = position;
+  const count = options.playerCount;
+  const players = createPlayers([], normalizeOptions(options));
+  const handName = (seat: number) => (seat === 0 ? 'your hand' : `${players[seat]?.name ?? `Player ${seat + 1}`}'s hand`);
+
+  if (hands.length !== count) {
+    errors.push(`A ${count}-player table needs ${count} hands, not ${hands.length}.`);
+    return errors;
+  }
+  if (!Number.isInteger(currentPlayer) || currentPlayer < 0 || currentPlayer >= count) {
+    errors.push('Pick whose turn it is.');
+  }
+
+  // Every tile exactly once across the board, the hands and the boneyard
+  const places: { name: string; tiles: Tile[] }[] = [
+    { name: 'the board', tiles: board },
+    ...hands.map((tiles, seat) => ({ name: handName(seat), tiles })),
+    { name: 'the boneyard', tiles: boneyard }
+  ];
+  const seenIn = new Map<number, string>();
+  places.forEach(({ name, tiles }) => tiles.forEach(tile => {
+    const i = DECK.findIndex(t => areTilesEqual(t, tile));
+    const previous = seenIn.get(i);
+    if (previous) errors.push(previous === name ? `${tileText(tile)} is in ${name} twice.` : `${tileText(tile)} is in both ${previous} and ${name}.`);
+    else seenIn.set(i, name);
+  }));
+  const total = places.reduce((n, p) => n + p.tiles.length, 0);
+  if (total !== DECK_SIZE) errors.push(`The tiles add up to ${total}; a double-nine set has ${DECK_SIZE}.`);
+
+  // The open ends have to be what the chain actually leaves showing
+  if (board.length === 0) {
+    if (leftEnd !== null || rightEnd !== null) errors.push('An empty board has no open ends.');
+    if (Object.values(passHistory).some(n => n.length > 0)) errors.push('Nobody can knock before the first tile is down.');
+  } else if (leftEnd === null || rightEnd === null) {
+    errors.push('Set both open ends.');
+  } else {
+    const walked = walkChain(board, leftEnd);
+    if ('broken' in walked) {
+      errors.push(`${tileText(board[walked.broken])} (tile ${walked.broken + 1} on the board) doesn't touch the ${walked.expected} before it.`);
+    } else if (walked.end !== rightEnd) {
+      errors.push(`With a left end of ${leftEnd} the chain leaves ${walked.end} open on the right, not ${rightEnd}.`);
+    }
+  }
+
+  hands.forEach((hand, seat) => {
+    if (hand.length === 0) errors.push(`${capitalize(handName(seat))} is empty, so that round is already over.`);
+    // A knock means no tile with that number, and nobody draws again after knocking
+    const knocked = passHistory[seat] ?? [];
+    hand.filter(t => knocked.some(n => t.includes(n))).forEach(t => {
+      errors.push(`${capitalize(handName(seat))} holds ${tileText(t)} after knocking on ${knocked.find(n => t.includes(n))}.`);
+    });
+  });
+
+  if (options.drawMode === 'pass') {
+    // Without drawing the boneyard never changes and nobody can have more than they were dealt
+    const undealt = DECK_SIZE - HAND_SIZE * count;
+    if (boneyard.length !== undealt) errors.push(`Without drawing, the boneyard always keeps ${undealt} tiles, not ${boneyard.length}.`);
+    hands.forEach((hand, seat) => {
+      if (hand.length > HAND_SIZE) errors.push(`${capitalize(handName(seat))} has ${hand.length} tiles; nobody is dealt more than ${HAND_SIZE}.`);
+    });
+  } else if (boneyard.length > 0 && Object.values(passHistory).some(n => n.length > 0)) {
+    errors.push('In a draw game nobody knocks while there are tiles left to draw.');
+  }
+
+  // A board nobody can add to is a tranque that has already happened
+  if (board.length > 0 && leftEnd !== null && (options.drawMode === 'pass' || boneyard.length === 0) &&
+      hands.every(hand => getValidMoves(hand, leftEnd, rightEnd).length === 0)) {
+    errors.push('Nobody can play on this board, so the round is already locked.');
+  }
+
+  return errors;
+};
+
+// Same tile leaving the same ends: left and right are one play when both ends match
+export const isSamePlay = (a: Move, b: Move, leftEnd: number | null, rightEnd: number | null): boolean =>
+  areTilesEqual(a.tile, b.tile) && getResultingEnds(a, leftEnd, rightEnd).join() === getResultingEnds(b, leftEnd, rightEnd).join();
+
+// The distinct plays open to the player to move
+export const getPuzzleChoices = (position: Position): Move[] => {
+  const { leftEnd, rightEnd } = position;
+  const moves = getValidMoves(position.hands[position.currentPlayer] ?? [], leftEnd, rightEnd);
+  return moves.filter((m, i) => moves.findIndex(o => isSamePlay(o, m, leftEnd, rightEnd)) === i);
+};
+
+// A position's problems plus the puzzle's own: solved from your seat, with a real choice and a legal answer
+export const validatePuzzle = (puzzle: Puzzle): string[] => {
+  const errors = validatePosition(puzzle.position);
+  if (errors.length > 0) return errors;
+  if (puzzle.solution.length === 0) return [];
+
+  const { position } = puzzle;
+  if (position.currentPlayer !== 0) errors.push('Puzzles are solved from your seat, so it has to be your turn.');
+  const choices = getPuzzleChoices(position);
+  if (choices.length < 2) errors.push('There is only one play here, so there is nothing to find.');
+  else if (choices.every(c => isPuzzleSolution(puzzle, c))) errors.push('Every play is marked correct; pick the ones that really are best.');
+  puzzle.solution.forEach(move => {
+    if (!choices.some(c => isSamePlay(c, move, position.leftEnd, position.rightEnd))) {
+      errors.push(`The answer ${tileText(move.tile)} on the ${move.side} isn't a legal play here.`);
+    }
+  });
+  return errors;
+};
+
+export const isPuzzleSolution = (puzzle: Puzzle, move: Move): boolean =>
+  puzzle.solution.some(m => isSamePlay(m, move, puzzle.position.leftEnd, puzzle.position.rightEnd));
+
+export const createPuzzle = (title: string, position: Position, solution: Move[]): Puzzle => ({
+  version: PUZZLE_VERSION,
+  title: title.trim() || 'Untitled position',
+  createdAt: new Date().toISOString(),
+  position,
+  solution
+});
+
+export const puzzleFileName = (puzzle: Puzzle): string =>
+  `domino-puzzle-${puzzle.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'position'}.json`;
+
+// Parses and validates a shared puzzle file. Throws an Error with a readable message on bad input.
+export const parsePuzzle = (json: string): Puzzle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isRecord(data) || data.version !== PUZZLE_VERSION) {
+    throw new Error(`Unsupported puzzle file version (expected ${PUZZLE_VERSION}).`);
+  }
+  const { position, solution } = data;
+  if (!isPositionShape(position)) throw new Error('The puzzle has no readable position.');
+  if (!Array.isArray(solution) || !solution.every(isMove)) throw new Error('The puzzle answer is malformed.');
+
+  const puzzle: Puzzle = {
+    version: PUZZLE_VERSION,
+    title: typeof data.title === 'string' ? data.title : 'Untitled position',
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    position: { ...position, options: normalizeOptions({ ...DEFAULT_OPTIONS, ...position.options }) },
+    solution: solution.map(m => ({ tile: m.tile, side: m.side }))
+  };
+  const errors = validatePuzzle(puzzle);
+  if (errors.length > 0) throw new Error(errors[0]);
+  return puzzle;
+};
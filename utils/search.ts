@@ -0,0 +1,191 @@
+import { GameState, Move, Tile, BotDifficulty } from '../types';
+import { reduce, getRoundEndAction, getNextPlayerIndex, getStuckAction } from './engine';
+import { generateDeck, getValidMoves, getResultingEnds, calculateBotMove, getPartnerInfo, areTilesEqual, shuffleDeck } from './gameLogic';
+import { Rng } from './random';
+import { InferenceState, buildInference, getPossibleTiles, tileIndex, BONEYARD } from './inference';
+
+// Determinized Monte Carlo search ("perfect information Monte Carlo").
+// For each sample we deal the hidden tiles in a way that agrees with everything the bot
+// has seen (board, hand sizes, passes), play every candidate move out to the end of the
+// round with the heuristic bot, and keep the move with the best average result.
+
+export interface SearchSettings {
+  iterations: number; // Max number of sampled worlds
+  timeBudgetMs: number; // Hard stop, whichever comes first
+}
+
+// Easy is the plain one-ply heuristic, so it has no search settings
+export const DIFFICULTY_SETTINGS: Record<BotDifficulty, SearchSettings | null> = {
+  easy: null,
+  normal: { iterations: 300, timeBudgetMs: 400 },
+  hard: { iterations: 2000, timeBudgetMs: 1500 },
+};
+
+export const DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+};
+
+// Max time spent computing before yielding back to the browser
+const SLICE_MS = 12;
+const MAX_SAMPLE_ATTEMPTS = 20;
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+// Deals the unseen tiles into a plausible world: every tile goes to a holder the tile
+// counting (utils/inference.ts) says could have it. If that fails after a few tries we
+// fall back to ignoring the constraints rather than stalling the bot.
+export const sampleWorld = (state: GameState, viewerId: number, rng: Rng, inf: InferenceState = buildInference(state, viewerId)): GameState => {
+  const unseen = generateDeck().filter((_, i) => !inf.played[i] && !inf.own[i]);
+  const others = state.players
+    .filter(p => p.id !== viewerId)
+    .map(p => ({ id: p.id, size: p.hand.length }))
+    .sort((a, b) => getPossibleTiles(inf, a.id).length - getPossibleTiles(inf, b.id).length); // Most constrained first
+
+  const tryDeal = (respectInference: boolean): Map<number, Tile[]> | null => {
+    let pool = shuffleDeck(unseen, rng);
+    const hands = new Map<number, Tile[]>();
+    for (const p of others) {
+      const fits = (t: Tile) => !respectInference || inf.possible[p.id][tileIndex(t)];
+      const hand: Tile[] = [];
+      const rest: Tile[] = [];
+      pool.forEach(t => (hand.length < p.size && fits(t) ? hand : rest).push(t));
+      if (hand.length < p.size) return null;
+      hands.set(p.id, hand);
+      pool = rest;
+    }
+    if (respectInference && pool.some(t => !inf.possible[BONEYARD][tileIndex(t)])) return null;
+    hands.set(BONEYARD, pool); // Whatever is left is the boneyard
+    return hands;
+  };
+
+  let hands: Map<number, Tile[]> | null = null;
+  for (let i = 0; i < MAX_SAMPLE_ATTEMPTS && !hands; i++) hands = tryDeal(true);
+  if (!hands) hands = tryDeal(false)!;
+
+  return {
+    ...state,
+    players: state.players.map(p => p.id === viewerId ? p : { ...p, hand: hands!.get(p.id)! }),
+    boneyard: hands.get(BONEYARD)!,
+  };
+};
+
+// Plays the round to the end with the heuristic bot in every seat
+export const playOut = (state: GameState): GameState => {
+  let s = state;
+  for (let guard = 0; guard < 300 && s.status === 'playing'; guard++) {
+    const end = getRoundEndAction(s);
+    if (end) return reduce(s, end);
+    const p = s.players[s.currentPlayerIndex];
+    const move = calculateBotMove(p.hand, s.leftEnd, s.rightEnd, s.passHistory, getNextPlayerIndex(p.id, s.players.length), getPartnerInfo(s, p.id));
+    s = reduce(s, move ? { type: 'play', playerId: p.id, tile: move.tile, side: move.side } : getStuckAction(s, p.id));
+  }
+  return s;
+};
+
+// Points from the point of view of `team`: positive if they won the round
+const scoreFor = (state: GameState, team: number): number => {
+  if (!state.winner || state.winner.team === null) return 0;
+  return state.winner.team === team ? state.winner.points : -state.winner.points;
+};
+
+// Left and right are the same move when both ends show the same number
+const getCandidateMoves = (hand: Tile[], leftEnd: number | null, rightEnd: number | null): Move[] => {
+  const moves: Move[] = [];
+  getValidMoves(hand, leftEnd, rightEnd).forEach(m => {
+    const ends = getResultingEnds(m, leftEnd, rightEnd);
+    const duplicate = moves.some(o => areTilesEqual(o.tile, m.tile) &&
+      getResultingEnds(o, leftEnd, rightEnd).join() === ends.join());
+    if (!duplicate) moves.push(m);
+  });
+  return moves;
+};
+
+interface SearchRun {
+  candidates: Move[];
+  totals: number[];
+  samples: number;
+  step: () => void; // Evaluates every candidate in one more sampled world
+}
+
+const createSearchRun = (state: GameState, playerId: number, rng: Rng): SearchRun => {
+  const player = state.players[playerId];
+  const candidates = getCandidateMoves(player.hand, state.leftEnd, state.rightEnd);
+  const inf = buildInference(state, playerId);
+  const run: SearchRun = {
+    candidates,
+    totals: candidates.map(() => 0),
+    samples: 0,
+    step: () => {
+      // Same world for every candidate keeps the comparison fair
+      const world = sampleWorld(state, playerId, rng, inf);
+      candidates.forEach((move, i) => {
+        const after = reduce(world, { type: 'play', playerId, tile: move.tile, side: move.side });
+        run.totals[i] += scoreFor(playOut(after), player.team);
+      });
+      run.samples++;
+    },
+  };
+  return run;
+};
+
+// Keeps sampling until the settings say stop, yielding to the event loop every few milliseconds so the page stays responsive
+const runAsync = async (run: SearchRun, settings: SearchSettings, signal?: AbortSignal) => {
+  const deadline = now() + settings.timeBudgetMs;
+  while (run.samples < settings.iterations && (run.samples === 0 || (now() < deadline && !signal?.aborted))) {
+    const sliceEnd = now() + SLICE_MS;
+    while (run.samples < settings.iterations && now() < sliceEnd) run.step();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+const bestOf = (run: SearchRun): Move =>
+  run.candidates[run.totals.reduce((best, total, i) => (total > run.totals[best] ? i : best), 0)];
+
+// Synchronous search, for Node scripts and simulations
+export const searchBotMove = (state: GameState, playerId: number, settings: SearchSettings, rng: Rng = Math.random): Move | null => {
+  const run = createSearchRun(state, playerId, rng);
+  if (run.candidates.length <= 1) return run.candidates[0] ?? null;
+
+  const deadline = now() + settings.timeBudgetMs;
+  while (run.samples < settings.iterations && (run.samples === 0 || now() < deadline)) run.step();
+  return bestOf(run);
+};
+
+// Same search, but asynchronous. Aborting stops the search early and returns the best move found so far.
+export const searchBotMoveAsync = async (
+  state: GameState,
+  playerId: number,
+  settings: SearchSettings,
+  rng: Rng = Math.random,
+  signal?: AbortSignal
+): Promise<Move | null> => {
+  const run = createSearchRun(state, playerId, rng);
+  if (run.candidates.length <= 1) return run.candidates[0] ?? null;
+
+  await runAsync(run, settings, signal);
+  return bestOf(run);
+};
+
+export interface MoveEvaluation {
+  move: Move;
+  expected: number; // Average round points for the mover's team over the sampled worlds (negative when they tend to lose)
+}
+
+// Every distinct legal move with its expected result, best first. Used by the post-round review.
+export const evaluateMovesAsync = async (
+  state: GameState,
+  playerId: number,
+  settings: SearchSettings,
+  rng: Rng = Math.random,
+  signal?: AbortSignal
+): Promise<MoveEvaluation[]> => {
+  const run = createSearchRun(state, playerId, rng);
+  if (run.candidates.length === 0) return [];
+
+  await runAsync(run, settings, signal);
+  return run.candidates
+    .map((move, i) => ({ move, expected: run.samples ? run.totals[i] / run.samples : 0 }))
+    .sort((a, b) => b.expected - a.expected);
+};
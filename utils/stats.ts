@@ -0,0 +1,167 @@
+import { GameState, MatchState, RoundEndReason } from '../types';
+import { isDouble } from './gameLogic';
+
+// Long-term practice stats. Every finished round is boiled down to a RoundStat from the user's seat;
+// the dashboard aggregates those, overall and week by week.
+
+export interface RoundStat {
+  playedAt: string; // ISO timestamp
+  playerCount: number;
+  won: boolean;
+  tie: boolean; // Tied tranque, nobody scored
+  reason: RoundEndReason;
+  pointsFor: number;
+  pointsAgainst: number;
+  turns: number; // Plays and passes (draws don't end a turn)
+  passes: number;
+  hadLead: boolean; // The user had the salida
+  suitsPlayed: number[]; // Tiles played per suit 0-9, a double counts once
+  matchResult: 'won' | 'lost' | null; // Set on the round that decided a match
+}
+
+export interface SuitStat {
+  suit: number;
+  played: number;
+  rounds: number; // Rounds where it was the user's most played suit
+  wins: number;
+}
+
+export interface StatsSummary {
+  rounds: number;
+  roundsWon: number;
+  ties: number;
+  matches: number;
+  matchesWon: number;
+  dominoWins: number;
+  tranqueWins: number;
+  avgPointsFor: number;
+  avgPointsAgainst: number;
+  passRate: number; // Share of turns that were passes
+  leadRate: number; // Share of rounds the user led
+  leadWinRate: number | null; // Win rate in those rounds
+  suits: SuitStat[];
+  strongestSuit: SuitStat | null;
+  weakestSuit: SuitStat | null;
+}
+
+export interface WeekTrend {
+  weekStart: string; // Monday, YYYY-MM-DD in local time
+  rounds: number;
+  winRate: number;
+  avgPointsFor: number;
+  avgPointsAgainst: number;
+  passRate: number;
+}
+
+// A suit needs a few rounds behind it before it can be called strong or weak
+const MIN_SUIT_ROUNDS = 3;
+
+// Most played suit, ties to the lower one; null if the user never played a tile
+const mainSuit = (suitsPlayed: number[]): number | null => {
+  const most = Math.max(...suitsPlayed);
+  return most > 0 ? suitsPlayed.indexOf(most) : null;
+};
+
+// Summarizes a finished round (state after end_round) from one seat; match is the score after it was recorded
+export const roundStat = (state: GameState, seat: number, match: MatchState): RoundStat | null => {
+  const end = state.events[state.events.length - 1];
+  const deal = state.events[0];
+  if (end?.type !== 'round_end' || deal?.type !== 'deal') return null;
+
+  const team = state.players[seat].team;
+  const won = end.team === team;
+  const suitsPlayed = Array(10).fill(0);
+  let turns = 0;
+  let passes = 0;
+  state.events.forEach(e => {
+    if ((e.type === 'play' || e.type === 'pass') && e.player === seat) turns++;
+    if (e.type === 'pass' && e.player === seat) passes++;
+    if (e.type === 'play' && e.player === seat) {
+      suitsPlayed[e.tile[0]]++;
+      if (!isDouble(e.tile)) suitsPlayed[e.tile[1]]++;
+    }
+  });
+
+  return {
+    playedAt: new Date().toISOString(),
+    playerCount: state.players.length,
+    won,
+    tie: end.team === null,
+    reason: end.reason,
+    pointsFor: won ? end.points : 0,
+    pointsAgainst: !won && end.team !== null ? end.points : 0,
+    turns,
+    passes,
+    hadLead: deal.starter === seat,
+    suitsPlayed,
+    matchResult: match.winner === null ? null : match.winner === team ? 'won' : 'lost'
+  };
+};
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+export const summarizeStats = (rounds: RoundStat[]): StatsSummary => {
+  const wins = rounds.filter(r => r.won);
+  const led = rounds.filter(r => r.hadLead);
+  const decided = rounds.filter(r => r.matchResult !== null);
+
+  const suits: SuitStat[] = Array.from({ length: 10 }, (_, suit) => ({ suit, played: 0, rounds: 0, wins: 0 }));
+  rounds.forEach(r => {
+    r.suitsPlayed.forEach((n, suit) => { suits[suit].played += n; });
+    const main = mainSuit(r.suitsPlayed);
+    if (main === null) return;
+    suits[main].rounds++;
+    if (r.won) suits[main].wins++;
+  });
+  const ranked = suits.filter(s => s.rounds >= MIN_SUIT_ROUNDS).sort((a, b) => ratio(b.wins, b.rounds) - ratio(a.wins, a.rounds));
+
+  return {
+    rounds: rounds.length,
+    roundsWon: wins.length,
+    ties: rounds.filter(r => r.tie).length,
+    matches: decided.length,
+    matchesWon: decided.filter(r => r.matchResult === 'won').length,
+    dominoWins: wins.filter(r => r.reason === 'domino').length,
+    tranqueWins: wins.filter(r => r.reason === 'tranque').length,
+    avgPointsFor: ratio(rounds.reduce((sum, r) => sum + r.pointsFor, 0), rounds.length),
+    avgPointsAgainst: ratio(rounds.reduce((sum, r) => sum + r.pointsAgainst, 0), rounds.length),
+    passRate: ratio(rounds.reduce((sum, r) => sum + r.passes, 0), rounds.reduce((sum, r) => sum + r.turns, 0)),
+    leadRate: ratio(led.length, rounds.length),
+    leadWinRate: led.length > 0 ? ratio(led.filter(r => r.won).length, led.length) : null,
+    suits,
+    strongestSuit: ranked.length > 1 ? ranked[0] : null,
+    weakestSuit: ranked.length > 1 ? ranked[ranked.length - 1] : null
+  };
+};
+
+const weekStartOf = (iso: string): string => {
+  const date = new Date(iso);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7)); // Back to Monday
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// One entry per week that has rounds in it, oldest first
+export const weeklyTrends = (rounds: RoundStat[]): WeekTrend[] => {
+  const weeks = new Map<string, RoundStat[]>();
+  rounds.forEach(r => {
+    if (Number.isNaN(new Date(r.playedAt).getTime())) return;
+    const key = weekStartOf(r.playedAt);
+    weeks.set(key, [...(weeks.get(key) ?? []), r]);
+  });
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, list]) => {
+      const summary = summarizeStats(list);
+      return {
+        weekStart,
+        rounds: list.length,
+        winRate: ratio(summary.roundsWon, list.length),
+        avgPointsFor: summary.avgPointsFor,
+        avgPointsAgainst: summary.avgPointsAgainst,
+        passRate: summary.passRate
+      };
+    });
+};
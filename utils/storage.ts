@@ -0,0 +1,257 @@
+import { GameOptions, GameSpeed, GameState, MatchState, RoundResult, RuleSet } from '../types';
+import { getTeamCount, DEFAULT_OPTIONS } from './engine';
+import { DEFAULT_RULES } from './rules';
+import { DEFAULT_TARGET_SCORE } from './match';
+import { RoundRecord, buildReplayStates, validateRoundRecord } from './replay';
+import { RoundStat } from './stats';
+import { isRecord, oneOf } from './guards';
+
+// Keeps the game in progress (and the match around it) in localStorage so a refresh doesn't lose it,
+// plus a history of finished rounds, the long-term stats and the speed setting. Browser-only, like download.ts.
+
+export const SAVE_VERSION = 1;
+
+const SAVE_KEY = 'domino-save';
+const HISTORY_KEY = 'domino-history';
+const HISTORY_LIMIT = 100; // Oldest rounds drop off first
+const STATS_KEY = 'domino-stats';
+const STATS_VERSION = 1;
+const STATS_LIMIT = 5000; // Months of daily practice; each entry is tiny
+const SPEED_KEY = 'domino-speed';
+const SPEEDS: GameSpeed[] = ['instant', 'fast', 'normal', 'slow'];
+
+// Start-screen choices that belong with the save, so a resumed match plays on the same way
+export interface SavedSettings {
+  targetScore: number;
+  rules: RuleSet;
+  options: GameOptions;
+  seatStrategies: Record<number, string>;
+  undoEnabled: boolean;
+  viewerSeat: number; // Pass-and-play: whose hand was on screen
+}
+
+export interface SavedGame {
+  version: number;
+  savedAt: string; // ISO timestamp
+  game: GameState;
+  match: MatchState;
+  settings: SavedSettings;
+}
+
+// What the app finds on load: a save it can resume, or the reason an old one was thrown away
+export type LoadedSave = { save: SavedGame; error: null } | { save: null; error: string };
+
+// Each entry upgrades a save from that version to the next one. Add a step whenever SavedGame changes shape,
+// e.g. 1: save => ({ ...save, version: 2, settings: { ...save.settings, speed: 'normal' } })
+type StoredSave = Record<string, unknown> & { version: number };
+
+const MIGRATIONS: Record<number, (save: StoredSave) => StoredSave> = {};
+
+const migrateSave = (data: unknown): StoredSave => {
+  if (!isRecord(data) || typeof data.version !== 'number' || !Number.isInteger(data.version)) throw new Error('The saved game has no version.');
+  if (data.version > SAVE_VERSION) throw new Error('The saved game comes from a newer version of the app.');
+
+  let save: StoredSave = { ...data, version: data.version };
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) throw new Error(`Saves from version ${save.version} can no longer be loaded.`);
+    save = migrate(save);
+  }
+  return save;
+};
+
+// The saved table is compared as stored, so it needs no checking of its own
+const sameTable = (rebuilt: GameState, saved: Record<string, unknown>) =>
+  JSON.stringify([rebuilt.board, rebuilt.players.map(p => p.hand), rebuilt.boneyard, rebuilt.currentPlayerIndex, rebuilt.status]) ===
+  JSON.stringify([saved.board, Array.isArray(saved.players) ? saved.players.map(p => (isRecord(p) ? p.hand : null)) : null,
+    saved.boneyard, saved.currentPlayerIndex, saved.status]);
+
+const isRuleSet = (value: unknown): value is RuleSet =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  oneOf(value.scoring, ['losers', 'all_hands'] as const) &&
+  oneOf(value.tranque, ['lowest_individual', 'team_total'] as const) &&
+  oneOf(value.tranqueTie, ['no_points', 'locker_team'] as const) &&
+  typeof value.roundToTens === 'boolean' &&
+  oneOf(value.salida, ['winner', 'rotation'] as const);
+
+const isGameOptions = (value: unknown): value is GameOptions =>
+  isRecord(value) && oneOf(value.playerCount, [2, 3, 4] as const) && typeof value.teams === 'boolean' &&
+  oneOf(value.drawMode, ['pass', 'draw'] as const);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// The event log is the source of truth: the round is rebuilt from it and has to land on the saved table
+const restoreGame = (game: unknown): GameState => {
+  if (!isRecord(game) || !Array.isArray(game.events) || game.events.length === 0) throw new Error('The saved game is incomplete.');
+
+  let states: GameState[];
+  try {
+    states = buildReplayStates(game.events);
+  } catch {
+    throw new Error("The saved game doesn't add up and can't be resumed.");
+  }
+  const rebuilt = states[states.length - 1];
+  if (!sameTable(rebuilt, game)) throw new Error("The saved game doesn't add up and can't be resumed.");
+
+  // Logs and the take-back count aren't in the events
+  return {
+    ...rebuilt,
+    logs: Array.isArray(game.logs) && game.logs.every(line => typeof line === 'string') ? game.logs : rebuilt.logs,
+    undoCount: isWholeNumber(game.undoCount) ? game.undoCount : rebuilt.undoCount
+  };
+};
+
+const isRoundResult = (value: unknown, teams: number): value is RoundResult =>
+  isRecord(value) && isWholeNumber(value.round) && value.round >= 1 &&
+  (value.team === null || (isWholeNumber(value.team) && value.team < teams)) &&
+  (value.reason === null || oneOf(value.reason, ['domino', 'tranque'] as const)) &&
+  isNumber(value.points) && isWholeNumber(value.undos);
+
+const restoreMatch = (match: unknown, game: GameState): MatchState => {
+  const teams = getTeamCount(game.options);
+  if (!isRecord(match) || !Array.isArray(match.scores) || match.scores.length !== teams || !match.scores.every(isNumber) ||
+      !Array.isArray(match.rounds) || !match.rounds.every(r => isRoundResult(r, teams)) || !isNumber(match.targetScore)) {
+    throw new Error("The saved match score doesn't fit the table.");
+  }
+  return {
+    targetScore: match.targetScore,
+    scores: match.scores,
+    rounds: match.rounds,
+    winner: isWholeNumber(match.winner) && match.winner < teams ? match.winner : null,
+    nextLeader: isWholeNumber(match.nextLeader) && match.nextLeader < game.players.length ? match.nextLeader : null
+  };
+};
+
+// Anything missing or unreadable falls back to the defaults, or to what the saved round was played with
+const restoreSettings = (settings: unknown, game: GameState): SavedSettings => {
+  const saved = isRecord(settings) ? settings : {};
+  const rules = isRecord(saved.rules) ? { ...DEFAULT_RULES, ...saved.rules } : null;
+  const options = isRecord(saved.options) ? { ...DEFAULT_OPTIONS, ...saved.options } : null;
+  return {
+    targetScore: isNumber(saved.targetScore) ? saved.targetScore : DEFAULT_TARGET_SCORE,
+    rules: isRuleSet(rules) ? rules : game.rules,
+    options: isGameOptions(options) ? options : game.options,
+    seatStrategies: isRecord(saved.seatStrategies)
+      ? Object.fromEntries(Object.entries(saved.seatStrategies).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+      : {},
+    undoEnabled: saved.undoEnabled !== false,
+    viewerSeat: isWholeNumber(saved.viewerSeat) && saved.viewerSeat < game.players.length ? saved.viewerSeat : 0
+  };
+};
+
+// null when there is nothing saved. A save that can't be used is removed, and the reason returned instead.
+export const loadSave = (): LoadedSave | null => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(SAVE_KEY);
+  } catch {
+    return null; // Storage blocked (private mode etc.)
+  }
+  if (raw === null) return null;
+
+  try {
+    const data = migrateSave(JSON.parse(raw));
+    const game = restoreGame(data.game);
+    return {
+      save: {
+        version: SAVE_VERSION,
+        savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+        game,
+        match: restoreMatch(data.match, game),
+        settings: restoreSettings(data.settings, game)
+      },
+      error: null
+    };
+  } catch (err) {
+    clearSave();
+    return { save: null, error: err instanceof SyntaxError ? 'The saved game is corrupted.' : err instanceof Error ? err.message : 'The saved game could not be read.' };
+  }
+};
+
+export const saveGame = (game: GameState, match: MatchState, settings: SavedSettings): void => {
+  const save: SavedGame = { version: SAVE_VERSION, savedAt: new Date().toISOString(), game, match, settings };
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Full or blocked storage just means no autosave
+  }
+};
+
+export const clearSave = (): void => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+// Finished rounds, oldest first. Records that no longer validate are skipped.
+export const loadHistory = (): RoundRecord[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    if (!Array.isArray(data)) return [];
+    return data.flatMap(record => {
+      try {
+        return [validateRoundRecord(record)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (history: RoundRecord[]): RoundRecord[] => {
+  const kept = history.slice(-HISTORY_LIMIT);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(kept));
+  } catch {
+    // Keep the in-memory list anyway
+  }
+  return kept;
+};
+
+const isRoundStat = (value: unknown): value is RoundStat =>
+  isRecord(value) && typeof value.playedAt === 'string' && typeof value.won === 'boolean' &&
+  ['pointsFor', 'pointsAgainst', 'turns', 'passes'].every(key => Number.isFinite(value[key])) &&
+  Array.isArray(value.suitsPlayed) && value.suitsPlayed.length === 10;
+
+// Stats kept in an older shape are dropped rather than guessed at
+export const loadStats = (): RoundStat[] => {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(STATS_KEY) ?? 'null');
+    if (!isRecord(data) || data.version !== STATS_VERSION || !Array.isArray(data.rounds)) return [];
+    return data.rounds.filter(isRoundStat);
+  } catch {
+    return [];
+  }
+};
+
+export const saveStats = (rounds: RoundStat[]): RoundStat[] => {
+  const kept = rounds.slice(-STATS_LIMIT);
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify({ version: STATS_VERSION, rounds: kept }));
+  } catch {
+    // Keep the in-memory list anyway
+  }
+  return kept;
+};
+
+export const loadSpeed = (): GameSpeed => {
+  try {
+    const speed = localStorage.getItem(SPEED_KEY);
+    return SPEEDS.includes(speed as GameSpeed) ? speed as GameSpeed : 'normal';
+  } catch {
+    return 'normal';
+  }
+};
+
+export const saveSpeed = (speed: GameSpeed) => {
+  try {
+    localStorage.setItem(SPEED_KEY, speed);
+  } catch {
+    // Still applies for this session
+  }
+};
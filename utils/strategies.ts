@@ -0,0 +1,109 @@
+import { BotStrategy, GameState, HeuristicWeights, Move, SeatView, Tile } from '../types';
+import { getNextPlayerIndex } from './engine';
+import { calculateBotMove, getPartnerInfo, getValidMoves, DEFAULT_WEIGHTS } from './gameLogic';
+import { searchBotMoveAsync, DIFFICULTY_SETTINGS } from './search';
+
+// Named bot styles. A strategy only ever sees a SeatView, so it can't peek at other hands.
+// Add new ones with registerStrategy; the start screen lists everything in the registry.
+
+// What a seat is allowed to know. Other players' hands, the boneyard and their draws are hidden.
+export const getSeatView = (state: GameState, seat: number): SeatView => ({
+  seat,
+  hand: state.players[seat].hand,
+  board: state.board,
+  leftEnd: state.leftEnd,
+  rightEnd: state.rightEnd,
+  passHistory: state.passHistory,
+  handCounts: state.players.map(p => p.hand.length),
+  boneyardCount: state.boneyard.length,
+  events: state.events.map(e => {
+    // The seed would rebuild every hand, so it goes too
+    if (e.type === 'deal') return { ...e, seed: null, hands: e.hands.map((h, id) => (id === seat ? h : [])), boneyard: [] };
+    if (e.type === 'setup') return { ...e, position: { ...e.position, hands: e.position.hands.map((h, id) => (id === seat ? h : [])), boneyard: [] } };
+    if (e.type === 'draw' && e.player !== seat) return { ...e, tile: null };
+    return e;
+  }),
+  players: state.players.map(({ id, name, team, isBot }) => ({ id, name, team, isBot })),
+  rules: state.rules,
+  options: state.options
+});
+
+// Hidden tiles in a rebuilt state. Nothing plays them: the search deals real tiles over them (sampleWorld).
+const HIDDEN: Tile = [-1, -1];
+
+// A GameState the existing bot code can work on, with placeholders where the seat can't see
+export const viewToState = (view: SeatView): GameState => ({
+  players: view.players.map(p => ({
+    ...p,
+    hand: p.id === view.seat ? [...view.hand] : Array.from({ length: view.handCounts[p.id] }, () => HIDDEN)
+  })),
+  board: [...view.board],
+  boneyard: Array.from({ length: view.boneyardCount }, () => HIDDEN),
+  leftEnd: view.leftEnd,
+  rightEnd: view.rightEnd,
+  currentPlayerIndex: view.seat,
+  status: 'playing',
+  logs: [],
+  events: [...view.events],
+  winner: null,
+  passHistory: Object.fromEntries(Object.entries(view.passHistory).map(([id, ends]) => [id, [...ends]])),
+  seed: null,
+  undoCount: 0,
+  rules: view.rules,
+  options: view.options
+});
+
+const heuristic = (view: SeatView, weights: HeuristicWeights): Move | null => {
+  const state = viewToState(view);
+  return calculateBotMove([...view.hand], view.leftEnd, view.rightEnd, state.passHistory,
+    getNextPlayerIndex(view.seat, view.players.length), getPartnerInfo(state, view.seat), weights);
+};
+
+// What a seat plays when its own strategy fails: the easy bot's pick
+export const fallbackMove = (view: SeatView): Move | null => heuristic(view, DEFAULT_WEIGHTS);
+
+const heuristicStrategy = (id: string, name: string, description: string, weights: Partial<HeuristicWeights>): BotStrategy => ({
+  id,
+  name,
+  description,
+  chooseMove: async view => heuristic(view, { ...DEFAULT_WEIGHTS, ...weights })
+});
+
+const searchStrategy = (id: 'normal' | 'hard', name: string, description: string): BotStrategy => ({
+  id,
+  name,
+  description,
+  chooseMove: (view, signal) => searchBotMoveAsync(viewToState(view), view.seat, DIFFICULTY_SETTINGS[id]!, Math.random, signal)
+});
+
+const STRATEGIES = new Map<string, BotStrategy>();
+
+export const registerStrategy = (strategy: BotStrategy): void => {
+  STRATEGIES.set(strategy.id, strategy);
+};
+
+// Unknown ids fall back to the default so an old saved setting never leaves a seat without a bot
+export const getStrategy = (id: string): BotStrategy => STRATEGIES.get(id) ?? STRATEGIES.get(DEFAULT_STRATEGY_ID)!;
+
+export const listStrategies = (): BotStrategy[] => [...STRATEGIES.values()];
+
+export const DEFAULT_STRATEGY_ID = 'normal';
+
+[
+  // The three difficulties keep their ids so BotDifficulty values work as strategy ids
+  heuristicStrategy('easy', 'Easy', 'One-move lookahead: heavy tiles, blocks and partner signals', {}),
+  searchStrategy('normal', 'Normal', 'Plays each option out a few hundred times'),
+  searchStrategy('hard', 'Hard', 'Longer search, thinks before every move'),
+  heuristicStrategy('blocker', 'Aggressive blocker', 'Keeps shutting the next player out, even at a cost', { block: 60, double: 5, partnerSuit: 2, partnerCover: 10 }),
+  heuristicStrategy('partner', 'Cautious partner', 'Feeds and protects its partner before anything else', { block: 10, partnerVoid: -25, partnerSuit: 18, partnerCover: 40 }),
+  heuristicStrategy('bota_gorda', 'Bota gorda', 'Just dumps the heaviest tile it can', { leadSuit: 0, block: 0, double: 0, partnerVoid: 0, partnerSuit: 0, partnerCover: 0 }),
+  {
+    id: 'random',
+    name: 'Random',
+    description: 'Any legal tile, any end',
+    chooseMove: async view => {
+      const moves = getValidMoves([...view.hand], view.leftEnd, view.rightEnd);
+      return moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : null;
+    }
+  },
+].forEach(registerStrategy);
@@ -0,0 +1,62 @@
+import React, { useRef, useState } from 'react';
+import { Side, Tile } from '../types';
+
+// Dragging tiles from the hand onto the board ends with pointer events, so mouse, pen and touch
+// all go through the same code. A press that never moves far counts as a tap.
+
+// Put this attribute on anything a tile can be dropped on; the value is the board side
+export const DROP_SIDE_ATTR = 'data-drop-side';
+
+const DRAG_THRESHOLD_PX = 8;
+
+export interface TileDrag {
+  tile: Tile;
+  x: number; // Pointer position, viewport pixels
+  y: number;
+  over: Side | null; // Board end under the pointer
+}
+
+// The pointer is captured by the tile, so look underneath it instead of trusting event targets
+const sideAt = (x: number, y: number): Side | null => {
+  const side = document.elementFromPoint(x, y)?.closest(`[${DROP_SIDE_ATTR}]`)?.getAttribute(DROP_SIDE_ATTR);
+  return side === 'left' || side === 'right' ? side : null;
+};
+
+export const useTileDrag = (onTap: (tile: Tile) => void, onDrop: (tile: Tile, side: Side) => void) => {
+  const [drag, setDrag] = useState<TileDrag | null>(null);
+  const press = useRef<{ tile: Tile; pointerId: number; x: number; y: number; moved: boolean } | null>(null);
+
+  // Spread onto the element wrapping a hand tile
+  const bindTile = (tile: Tile, enabled: boolean) => enabled ? {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0 || press.current) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      press.current = { tile, pointerId: e.pointerId, x: e.clientX, y: e.clientY, moved: false };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      const current = press.current;
+      if (!current || current.pointerId !== e.pointerId) return;
+      if (!current.moved && Math.hypot(e.clientX - current.x, e.clientY - current.y) < DRAG_THRESHOLD_PX) return;
+      current.moved = true;
+      setDrag({ tile: current.tile, x: e.clientX, y: e.clientY, over: sideAt(e.clientX, e.clientY) });
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLElement>) => {
+      const current = press.current;
+      if (!current || current.pointerId !== e.pointerId) return;
+      press.current = null;
+      setDrag(null);
+      if (!current.moved) {
+        onTap(current.tile);
+        return;
+      }
+      const side = sideAt(e.clientX, e.clientY);
+      if (side) onDrop(current.tile, side);
+    },
+    onPointerCancel: () => {
+      press.current = null;
+      setDrag(null);
+    }
+  } : {};
+
+  return { drag, bindTile };
+};
@@ -0,0 +1,248 @@
+import { GameState, GameOptions, Move, RuleSet, BotDifficulty, HeuristicWeights, RoundEndReason } from '../types';
+import { reduce, initialGameState, getRoundEndAction, getStuckAction, getNextPlayerIndex, normalizeOptions, getTeamCount } from './engine';
+import { dealFromSeed, calculateBotMove, getPartnerInfo } from './gameLogic';
+import { searchBotMove, DIFFICULTY_SETTINGS } from './search';
+import { createMatch, recordRound } from './match';
+import { Rng, createRng, seedToDealCode } from './random';
+import { DEFAULT_RULES } from './rules';
+
+// Headless bot-vs-bot play for measuring strategy changes (run with `npm run tournament`).
+// Every deal is played once per side ("duplicate"), so both bots get the same cards and
+// luck of the deal mostly cancels out.
+
+export interface Entrant {
+  name: string;
+  difficulty: BotDifficulty;
+  weights: HeuristicWeights; // Only the heuristic (easy) bot uses these; search bots roll out with the defaults
+}
+
+export interface TournamentConfig {
+  a: Entrant;
+  b: Entrant;
+  games: number; // Deals (or matches) before duplicating, so the total is games × sides
+  mode: 'rounds' | 'matches';
+  seed: number;
+  rules: RuleSet;
+  options: GameOptions;
+  targetScore: number;
+}
+
+export const DEFAULT_TOURNAMENT: Omit<TournamentConfig, 'a' | 'b'> = {
+  games: 500,
+  mode: 'rounds',
+  seed: 1,
+  rules: DEFAULT_RULES,
+  options: { playerCount: 4, teams: true, drawMode: 'pass' },
+  targetScore: 100,
+};
+
+export interface RoundOutcome {
+  game: number; // Which deal or match this belongs to
+  dealCode: string;
+  aTeam: number; // Team (or seat, in individual play) bot A played
+  winnerTeam: number | null;
+  reason: RoundEndReason;
+  points: number;
+  aNet: number; // Points from A's side: won, lost (negative) or 0 for a tie
+}
+
+export interface MatchOutcome {
+  game: number;
+  aTeam: number;
+  aWon: boolean;
+  aScore: number;
+  bestOtherScore: number;
+  rounds: number;
+}
+
+export interface Interval {
+  value: number;
+  low: number; // 95% confidence
+  high: number;
+}
+
+export interface TournamentSummary {
+  rounds: number;
+  aRoundWins: number;
+  bRoundWins: number;
+  ties: number;
+  aRoundWinRate: Interval;
+  aNetPoints: Interval; // Average per round
+  aAvgPointsWon: number; // Average size of A's wins
+  bAvgPointsWon: number;
+  dominoRate: number;
+  tranqueRate: number;
+  matches?: number;
+  aMatchWinRate?: Interval;
+  fairShare: number; // Expected win rate for equal bots: 0.5 with teams, 1/n individually
+}
+
+export interface TournamentResult {
+  config: TournamentConfig;
+  summary: TournamentSummary;
+  rounds: RoundOutcome[];
+  matches: MatchOutcome[];
+}
+
+const Z_95 = 1.96;
+
+// Wilson score interval: behaves at rates near 0 or 1 where the normal approximation doesn't
+export const wilsonInterval = (successes: number, trials: number): Interval => {
+  if (trials === 0) return { value: 0, low: 0, high: 0 };
+  const p = successes / trials;
+  const denom = 1 + (Z_95 * Z_95) / trials;
+  const centre = (p + (Z_95 * Z_95) / (2 * trials)) / denom;
+  const spread = (Z_95 * Math.sqrt((p * (1 - p)) / trials + (Z_95 * Z_95) / (4 * trials * trials))) / denom;
+  return { value: p, low: Math.max(0, centre - spread), high: Math.min(1, centre + spread) };
+};
+
+export const meanInterval = (values: number[]): Interval => {
+  const n = values.length;
+  if (n === 0) return { value: 0, low: 0, high: 0 };
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  if (n === 1) return { value: mean, low: mean, high: mean };
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1);
+  const margin = Z_95 * Math.sqrt(variance / n);
+  return { value: mean, low: mean - margin, high: mean + margin };
+};
+
+const chooseMove = (state: GameState, playerId: number, entrant: Entrant, rng: Rng): Move | null => {
+  const settings = DIFFICULTY_SETTINGS[entrant.difficulty];
+  if (settings) {
+    // No time limit here, so results only depend on the seed
+    return searchBotMove(state, playerId, { ...settings, timeBudgetMs: Infinity }, rng);
+  }
+  const player = state.players[playerId];
+  return calculateBotMove(player.hand, state.leftEnd, state.rightEnd, state.passHistory,
+    getNextPlayerIndex(playerId, state.players.length), getPartnerInfo(state, playerId), entrant.weights);
+};
+
+// Plays one deal to the end. Seats on `aTeam` are bot A, everyone else bot B.
+export const playRound = (config: TournamentConfig, seed: number, aTeam: number, leader: number | null, rng: Rng): GameState => {
+  let state = reduce(initialGameState, {
+    type: 'deal', deck: dealFromSeed(seed), seed, rules: config.rules, options: config.options, leader: leader ?? undefined
+  });
+
+  for (let guard = 0; guard < 500 && state.status === 'playing'; guard++) {
+    const end = getRoundEndAction(state);
+    if (end) return reduce(state, end);
+    const player = state.players[state.currentPlayerIndex];
+    const move = chooseMove(state, player.id, player.team === aTeam ? config.a : config.b, rng);
+    state = reduce(state, move ? { type: 'play', playerId: player.id, tile: move.tile, side: move.side } : getStuckAction(state, player.id));
+  }
+  return state;
+};
+
+const toOutcome = (state: GameState, game: number, aTeam: number): RoundOutcome => {
+  const winnerTeam = state.winner?.team ?? null;
+  const points = state.winner?.points ?? 0;
+  return {
+    game,
+    dealCode: state.seed !== null ? seedToDealCode(state.seed) : '',
+    aTeam,
+    winnerTeam,
+    reason: state.winner?.reason ?? 'tranque',
+    points,
+    aNet: winnerTeam === null ? 0 : winnerTeam === aTeam ? points : -points
+  };
+};
+
+export const summarize = (config: TournamentConfig, rounds: RoundOutcome[], matches: MatchOutcome[]): TournamentSummary => {
+  const aWins = rounds.filter(r => r.winnerTeam === r.aTeam);
+  const ties = rounds.filter(r => r.winnerTeam === null);
+  const bWins = rounds.filter(r => r.winnerTeam !== null && r.winnerTeam !== r.aTeam);
+  const avg = (list: RoundOutcome[]) => (list.length ? list.reduce((s, r) => s + r.points, 0) / list.length : 0);
+
+  return {
+    rounds: rounds.length,
+    aRoundWins: aWins.length,
+    bRoundWins: bWins.length,
+    ties: ties.length,
+    aRoundWinRate: wilsonInterval(aWins.length, rounds.length),
+    aNetPoints: meanInterval(rounds.map(r => r.aNet)),
+    aAvgPointsWon: avg(aWins),
+    bAvgPointsWon: avg(bWins),
+    dominoRate: rounds.length ? rounds.filter(r => r.reason === 'domino').length / rounds.length : 0,
+    tranqueRate: rounds.length ? rounds.filter(r => r.reason === 'tranque').length / rounds.length : 0,
+    ...(config.mode === 'matches' && {
+      matches: matches.length,
+      aMatchWinRate: wilsonInterval(matches.filter(m => m.aWon).length, matches.length)
+    }),
+    fairShare: 1 / getTeamCount(config.options)
+  };
+};
+
+// Runs the whole tournament synchronously. onProgress gets (done, total) after each deal or match.
+export const runTournament = (config: TournamentConfig, onProgress?: (done: number, total: number) => void): TournamentResult => {
+  const cfg = { ...config, options: normalizeOptions(config.options) };
+  const sides = getTeamCount(cfg.options);
+  const seeds = createRng(cfg.seed);
+  const rng = createRng(cfg.seed ^ 0x5EED);
+  const nextSeed = () => Math.floor(seeds() * 4294967296) >>> 0;
+  const rounds: RoundOutcome[] = [];
+  const matches: MatchOutcome[] = [];
+  const total = cfg.games * sides;
+
+  for (let game = 0; game < cfg.games; game++) {
+    if (cfg.mode === 'rounds') {
+      const seed = nextSeed();
+      for (let aTeam = 0; aTeam < sides; aTeam++) {
+        rounds.push(toOutcome(playRound(cfg, seed, aTeam, null, rng), game, aTeam));
+        onProgress?.(rounds.length, total);
+      }
+      continue;
+    }
+
+    // Matches: the same sequence of deals for every side
+    const matchSeeds: number[] = [];
+    for (let aTeam = 0; aTeam < sides; aTeam++) {
+      let match = createMatch(cfg.targetScore, sides);
+      for (let r = 0; match.winner === null && r < 200; r++) {
+        if (r === matchSeeds.length) matchSeeds.push(nextSeed());
+        const state = playRound(cfg, matchSeeds[r], aTeam, r === 0 ? null : match.nextLeader, rng);
+        rounds.push(toOutcome(state, game, aTeam));
+        match = recordRound(match, state);
+      }
+      matches.push({
+        game,
+        aTeam,
+        aWon: match.winner === aTeam,
+        aScore: match.scores[aTeam],
+        bestOtherScore: Math.max(...match.scores.filter((_, t) => t !== aTeam)),
+        rounds: match.rounds.length
+      });
+      onProgress?.(matches.length, total);
+    }
+  }
+
+  return { config: cfg, summary: summarize(cfg, rounds, matches), rounds, matches };
+};
+
+const CSV_COLUMNS: (keyof RoundOutcome)[] = ['game', 'dealCode', 'aTeam', 'winnerTeam', 'reason', 'points', 'aNet'];
+
+// One line per round, for spreadsheets
+export const roundsToCsv = (rounds: RoundOutcome[]): string =>
+  [CSV_COLUMNS.join(','), ...rounds.map(r => CSV_COLUMNS.map(c => r[c] ?? '').join(','))].join('\n') + '\n';
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const formatInterval = (i: Interval, asPct: boolean) =>
+  asPct ? `${pct(i.value)} (95% CI ${pct(i.low)} – ${pct(i.high)})` : `${i.value.toFixed(2)} (95% CI ${i.low.toFixed(2)} – ${i.high.toFixed(2)})`;
+
+// Human-readable report for the terminal
+export const formatSummary = (result: TournamentResult): string => {
+  const { config, summary } = result;
+  const lines = [
+    `A: ${config.a.name}   vs   B: ${config.b.name}`,
+    `${config.options.playerCount} players, ${config.options.teams ? 'teams' : 'individual'}, ${config.options.drawMode} mode, rules ${config.rules.name}, seed ${config.seed}`,
+    '',
+    `Rounds played:     ${summary.rounds} (A won ${summary.aRoundWins}, B won ${summary.bRoundWins}, ${summary.ties} tied)`,
+    `A round win rate:  ${formatInterval(summary.aRoundWinRate, true)}, fair share ${pct(summary.fairShare)}`,
+    `A net points/round: ${formatInterval(summary.aNetPoints, false)}`,
+    `Avg points per win: A ${summary.aAvgPointsWon.toFixed(1)}, B ${summary.bAvgPointsWon.toFixed(1)}`,
+    `Ended by domino:   ${pct(summary.dominoRate)}, by tranque ${pct(summary.tranqueRate)}`,
+  ];
+  if (summary.aMatchWinRate) {
+    lines.push(`A match win rate:  ${formatInterval(summary.aMatchWinRate, true)} over ${summary.matches} matches to ${config.targetScore}`);
+  }
+  return lines.join('\n');
+};